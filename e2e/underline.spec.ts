@@ -146,3 +146,59 @@ test("soft-wrap: underscore marks are hidden in wrapped editor", async ({ page }
     expect(m.opacity).toBe("0");
   }
 });
+
+// ── Test 4: Live Preview token-scoped mark reveal ─────────────────────────────
+//
+// The editor sits inside .markdown-source-view.is-live-preview, so the
+// cursor-dependent path in buildDecorations runs. Only the token containing
+// the cursor shows its marks; the other token on the same line stays rendered.
+
+async function getLivePreviewMarks(page: any) {
+  await page.waitForSelector("#editor-live-preview .cm-content", { timeout: 5000 });
+  return page.evaluate(() => {
+    const marks = Array.from(
+      document.querySelectorAll("#editor-live-preview .cm-underscore-mark")
+    ) as HTMLElement[];
+    return marks.map((el) => ({
+      display: getComputedStyle(el).display,
+      active: el.classList.contains("cm-underscore-mark-active"),
+    }));
+  });
+}
+
+test("live preview: only the token under the cursor reveals its marks", async ({ page }) => {
+  const marks = await getLivePreviewMarks(page);
+
+  expect(marks).toHaveLength(4);
+  // first span: hidden marks
+  expect(marks[0].display).toBe("none");
+  expect(marks[1].display).toBe("none");
+  // second span (cursor inside): visible marks
+  expect(marks[2].active).toBe(true);
+  expect(marks[3].active).toBe(true);
+  expect(marks[2].display).not.toBe("none");
+  expect(marks[3].display).not.toBe("none");
+});
+
+test("live preview: every token on the cursor line stays underlined", async ({ page }) => {
+  const styles = await getUnderlineStyles(page, "#editor-live-preview");
+
+  expect(styles).toHaveLength(2);
+  for (const s of styles) {
+    expect(s.textDecorationLine, `span "${s.textContent}" should be underlined`).toContain("underline");
+  }
+});
+
+test("live preview: moving the cursor moves the revealed marks", async ({ page }) => {
+  await page.waitForSelector("#editor-live-preview .cm-content", { timeout: 5000 });
+  await page.evaluate(() => {
+    const view = (window as any).livePreviewView;
+    view.dispatch({ selection: { anchor: 3 } }); // inside "_first span_"
+  });
+
+  const marks = await getLivePreviewMarks(page);
+  expect(marks[0].active).toBe(true);
+  expect(marks[1].active).toBe(true);
+  expect(marks[2].display).toBe("none");
+  expect(marks[3].display).toBe("none");
+});
@@ -14426,65 +14426,578 @@ var marks = {
   auto: /* @__PURE__ */ Decoration.mark({ class: "cm-iso", inclusive: true, attributes: { dir: "auto" }, bidiIsolate: null })
 };
 
+// src/syntax.ts
+var UNDERSCORE_SYNTAX = { id: "underscore", open: "_", close: "_" };
+
+// src/tokenizer.ts
+var MASK_CHAR = "\0";
+var ASCII_PUNCTUATION_RE = /[!-/:-@[-`{-~]/;
+var PUNCTUATION_RE = /[\p{P}\p{S}]/u;
+var WHITESPACE_RE = /\s/;
+var BLOCK_START_RE = /^\s*(?:#{1,6}(?:\s|$)|[-*+]\s|\d+[.)]\s|>|```|~~~|\||\$\$)/;
+var SINGLE_LINE_BLOCK_RE = /^ {0,3}(?:#{1,6}(?:[ \t]|$)|([-*_])(?:[ \t]*\1){2,}[ \t]*$)/;
+var QUOTE_PREFIX_RE = /^(?: {0,3}>[ \t]?)+/;
+function quotePrefixLength(line) {
+  return QUOTE_PREFIX_RE.exec(line)?.[0].length ?? 0;
+}
+function quoteDepth(line) {
+  return line.slice(0, quotePrefixLength(line)).split(">").length - 1;
+}
+function blankQuotePrefix(line) {
+  const length = quotePrefixLength(line);
+  return length === 0 ? line : " ".repeat(length) + line.slice(length);
+}
+function isSingleLineBlock(line) {
+  return SINGLE_LINE_BLOCK_RE.test(line.slice(quotePrefixLength(line)));
+}
+function continuesParagraph(previous, line) {
+  const content2 = line.slice(quotePrefixLength(line));
+  if (previous.slice(quotePrefixLength(previous)).trim() === "" || content2.trim() === "")
+    return false;
+  if (isSingleLineBlock(previous) || isSingleLineBlock(line))
+    return false;
+  const depth = quoteDepth(line);
+  if (depth > 0)
+    return depth === quoteDepth(previous) && !BLOCK_START_RE.test(content2);
+  return !BLOCK_START_RE.test(line);
+}
+var TABLE_DELIMITER_ROW_RE = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+function isTableDelimiterRow(line) {
+  return line.includes("-") && TABLE_DELIMITER_ROW_RE.test(line);
+}
+function findPipes(line) {
+  const pipes = [];
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === "\\")
+      i++;
+    else if (line[i] === "|")
+      pipes.push(i);
+  }
+  return pipes;
+}
+function splitTableCells(line) {
+  const pipes = findPipes(line);
+  const bounds = [...pipes];
+  if (line.slice(0, pipes[0] ?? 0).trim() !== "")
+    bounds.unshift(-1);
+  const last = pipes[pipes.length - 1] ?? line.length;
+  if (line.slice(last + 1).trim() !== "")
+    bounds.push(line.length);
+  const cells = [];
+  for (let i = 0; i + 1 < bounds.length; i++) {
+    cells.push({ from: bounds[i] + 1, to: bounds[i + 1] });
+  }
+  return cells;
+}
+function findTableRows(getLine, from, to) {
+  const hasPipe = (line) => line !== null && findPipes(line).length > 0;
+  let afterDelimiter = false;
+  for (let i = from - 1; hasPipe(getLine(i)); i--) {
+    if (isTableDelimiterRow(getLine(i) ?? "")) {
+      afterDelimiter = true;
+      break;
+    }
+  }
+  const rows = [];
+  for (let n = from; n < to; n++) {
+    const line = getLine(n);
+    if (!hasPipe(line)) {
+      afterDelimiter = false;
+      rows.push(false);
+      continue;
+    }
+    if (isTableDelimiterRow(line))
+      afterDelimiter = true;
+    const next = getLine(n + 1);
+    rows.push(afterDelimiter || next !== null && isTableDelimiterRow(next));
+  }
+  return rows;
+}
+function maskRange(text, from, to) {
+  return text.slice(0, from) + text.slice(from, to).replace(/[_*\\]/g, MASK_CHAR) + text.slice(to);
+}
+function blankRange(text, from, to) {
+  return text.slice(0, from) + blank(text.slice(from, to)) + text.slice(to);
+}
+function blank(text) {
+  return text.replace(/[^\n]/g, MASK_CHAR);
+}
+function findCodeSpans(text) {
+  const spans = [];
+  const runLength = (at) => {
+    let end = at;
+    while (text[end] === "`")
+      end++;
+    return end - at;
+  };
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (text[i] !== "`") {
+      i++;
+      continue;
+    }
+    const length = runLength(i);
+    let close = i + length;
+    while (close < text.length && !(text[close] === "`" && runLength(close) === length)) {
+      close += text[close] === "`" ? runLength(close) : 1;
+    }
+    if (close < text.length) {
+      spans.push({ from: i, to: close + length });
+      i = close + length;
+    } else {
+      i += length;
+    }
+  }
+  return spans;
+}
+var SKIPPED_INLINE_RES = [
+  /\$\$[\s\S]*?\$\$/g,
+  /\$[^$\n]*?\$/g,
+  /\[\[[\s\S]*?\]\]/g,
+  // internal links
+  /!?\[[^\]]*?\]\([^)]*?\)/g,
+  // external links and images
+  /(?<!\()https?:\/\/[^\s]+/g
+  // bare URLs (not link targets)
+];
+function findSkippedInlineRanges(text) {
+  const ranges = findCodeSpans(text);
+  let scan = text;
+  for (const range of ranges) {
+    scan = blankRange(scan, range.from, range.to);
+  }
+  for (const re of SKIPPED_INLINE_RES) {
+    const found = Array.from(scan.matchAll(re), (m) => ({
+      from: m.index ?? 0,
+      to: (m.index ?? 0) + m[0].length
+    }));
+    for (const range of found) {
+      scan = blankRange(scan, range.from, range.to);
+    }
+    ranges.push(...found);
+  }
+  return ranges.sort((a, b) => a.from - b.from);
+}
+function maskSkippedInline(text, mask = (m) => m.replace(/[_*\\]/g, MASK_CHAR)) {
+  let masked = text;
+  for (const { from, to } of findSkippedInlineRanges(text)) {
+    masked = masked.slice(0, from) + mask(masked.slice(from, to)) + masked.slice(to);
+  }
+  return masked;
+}
+function isWhitespace(ch) {
+  return ch === void 0 || WHITESPACE_RE.test(ch);
+}
+function isPunctuation(ch) {
+  return ch !== void 0 && PUNCTUATION_RE.test(ch);
+}
+function scanDelimiters(text) {
+  const delimiters = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === "\\" && i + 1 < text.length && ASCII_PUNCTUATION_RE.test(text[i + 1])) {
+      i += 2;
+      continue;
+    }
+    if (ch !== "_" && ch !== "*") {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (text[end] === ch)
+      end++;
+    const before = text[i - 1];
+    const after = text[end];
+    const leftFlanking = !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+    const rightFlanking = !isWhitespace(before) && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+    let canOpen = leftFlanking;
+    let canClose = rightFlanking;
+    if (ch === "_") {
+      canOpen = leftFlanking && (!rightFlanking || isPunctuation(before));
+      canClose = rightFlanking && (!leftFlanking || isPunctuation(after));
+    }
+    delimiters.push({
+      char: ch,
+      pos: i,
+      length: end - i,
+      origLength: end - i,
+      canOpen,
+      canClose
+    });
+    i = end;
+  }
+  return delimiters;
+}
+function tokenizeEmphasis(text) {
+  const stack = scanDelimiters(maskSkippedInline(text));
+  const spans = [];
+  let closerIndex = 0;
+  while (closerIndex < stack.length) {
+    const closer = stack[closerIndex];
+    if (!closer.canClose) {
+      closerIndex++;
+      continue;
+    }
+    let openerIndex = -1;
+    for (let j = closerIndex - 1; j >= 0; j--) {
+      const opener2 = stack[j];
+      if (opener2.char !== closer.char || !opener2.canOpen)
+        continue;
+      const oddMatch = (opener2.canClose || closer.canOpen) && (opener2.origLength + closer.origLength) % 3 === 0 && !(opener2.origLength % 3 === 0 && closer.origLength % 3 === 0);
+      if (!oddMatch) {
+        openerIndex = j;
+        break;
+      }
+    }
+    if (openerIndex === -1) {
+      if (!closer.canOpen) {
+        stack.splice(closerIndex, 1);
+      } else {
+        closerIndex++;
+      }
+      continue;
+    }
+    const opener = stack[openerIndex];
+    const used = opener.length >= 2 && closer.length >= 2 ? 2 : 1;
+    opener.length -= used;
+    spans.push({
+      from: opener.pos + opener.length,
+      // innermost chars of the opener
+      to: closer.pos + used,
+      delimiter: closer.char,
+      strong: used === 2
+    });
+    closer.pos += used;
+    closer.length -= used;
+    stack.splice(openerIndex + 1, closerIndex - openerIndex - 1);
+    closerIndex = openerIndex + 1;
+    if (opener.length === 0) {
+      stack.splice(openerIndex, 1);
+      closerIndex--;
+    }
+    if (closer.length === 0) {
+      stack.splice(closerIndex, 1);
+    }
+  }
+  return spans.sort((a, b) => a.from - b.from || b.to - a.to);
+}
+function tokenizeDelimited(text, open, close) {
+  const masked = maskSkippedInline(text, blank);
+  const spans = [];
+  const isEscaped = (pos) => masked[pos - 1] === "\\";
+  let from = masked.indexOf(open);
+  while (from !== -1) {
+    const contentFrom = from + open.length;
+    if (isEscaped(from) || isWhitespace(masked[contentFrom])) {
+      from = masked.indexOf(open, from + 1);
+      continue;
+    }
+    let closeAt = masked.indexOf(close, contentFrom + 1);
+    while (closeAt !== -1 && (isEscaped(closeAt) || isWhitespace(masked[closeAt - 1]))) {
+      closeAt = masked.indexOf(close, closeAt + 1);
+    }
+    if (closeAt === -1)
+      break;
+    spans.push({ from, to: closeAt + close.length });
+    from = masked.indexOf(open, closeAt + close.length);
+  }
+  return spans;
+}
+
 // src/editor-decoration.ts
+var underlineSyntaxes = Facet.define({
+  combine: (values) => values[0] ?? [UNDERSCORE_SYNTAX]
+});
+var underlineProfile = Facet.define({
+  combine: (values) => values[0] ?? "hidden"
+});
 var underscoreMarkDecoration = Decoration.mark({
   class: "cm-underscore-mark"
 });
+var underscoreActiveMarkDecoration = Decoration.mark({
+  class: "cm-underscore-mark cm-underscore-mark-active"
+});
 var underscoreContentDecoration = Decoration.mark({
   class: "cm-underscore-underline"
 });
-var UNDERSCORE_RE = /_([^_\n]+?)_/g;
-function buildDecorations(view) {
-  const builder = new RangeSetBuilder();
-  const { from: vpFrom, to: vpTo } = view.viewport;
-  const doc2 = view.state.doc;
-  const skippedRanges = [];
-  syntaxTree(view.state).iterate({
+var plainContentDecoration = Decoration.mark({
+  class: "cm-underscore-underline cm-underscore-plain"
+});
+var italicContentDecoration = Decoration.mark({
+  class: "cm-underscore-italic"
+});
+var SKIPPED_NODE_RE = /[Cc]ode|[Mm]ath|[Ll]ink|[Uu]rl/;
+var TokenMarker = class extends RangeValue {
+  constructor(open, close, emphasis) {
+    super();
+    this.open = open;
+    this.close = close;
+    this.emphasis = emphasis;
+  }
+  eq(other) {
+    return other instanceof TokenMarker && other.open === this.open && other.close === this.close && other.emphasis === this.emphasis;
+  }
+};
+function collectSkippedRanges(state, from, to) {
+  const skipped = [];
+  syntaxTree(state).iterate({
+    from,
+    to,
     enter(node) {
-      if (/[Cc]ode|[Mm]ath|[Ll]ink|[Uu]rl/.test(node.name)) {
-        skippedRanges.push({ from: node.from, to: node.to });
+      if (SKIPPED_NODE_RE.test(node.name)) {
+        skipped.push({ from: node.from, to: node.to });
       }
     }
   });
-  let pos = vpFrom;
-  while (pos <= Math.min(vpTo, doc2.length)) {
-    const line = doc2.lineAt(pos);
-    const lineText = line.text;
-    let sanitizedLineText = lineText;
+  return skipped;
+}
+var PARAGRAPH_MARGIN_LINES = 100;
+function paragraphBounds(state, from, to, limit) {
+  const doc2 = state.doc;
+  let first = doc2.lineAt(from).number;
+  let last = doc2.lineAt(to).number;
+  const minLine = Math.min(first, Math.max(1, doc2.lineAt(limit.from).number - PARAGRAPH_MARGIN_LINES));
+  const maxLine = Math.max(last, Math.min(doc2.lines, doc2.lineAt(limit.to).number + PARAGRAPH_MARGIN_LINES));
+  while (first > minLine && continuesParagraph(doc2.line(first - 1).text, doc2.line(first).text)) {
+    first--;
+  }
+  while (last < maxLine && continuesParagraph(doc2.line(last).text, doc2.line(last + 1).text)) {
+    last++;
+  }
+  return { from: doc2.line(first).from, to: doc2.line(last).to };
+}
+function scanTokens(state, from, to, limit) {
+  const doc2 = state.doc;
+  const scanned = paragraphBounds(state, from, to, limit);
+  const firstLine = doc2.lineAt(scanned.from);
+  const lastLine = doc2.lineAt(scanned.to);
+  const skippedRanges = collectSkippedRanges(state, scanned.from, scanned.to);
+  const syntaxes = state.facet(underlineSyntaxes);
+  const tokens = [];
+  let paragraphFrom = firstLine.from;
+  let paragraphText = "";
+  const flush = () => {
+    let sanitized = paragraphText;
+    let blanked = paragraphText;
     for (const r of skippedRanges) {
-      if (r.to > line.from && r.from < line.to) {
-        const start = Math.max(0, r.from - line.from);
-        const end = Math.min(lineText.length, r.to - line.from);
-        sanitizedLineText = sanitizedLineText.slice(0, start) + " ".repeat(end - start) + sanitizedLineText.slice(end);
-      }
-    }
-    UNDERSCORE_RE.lastIndex = 0;
-    let match;
-    while ((match = UNDERSCORE_RE.exec(sanitizedLineText)) !== null) {
-      const from = line.from + match.index;
-      const to = from + match[0].length;
-      builder.add(from, from + 1, underscoreMarkDecoration);
-      builder.add(from + 1, to - 1, underscoreContentDecoration);
-      builder.add(to - 1, to, underscoreMarkDecoration);
-    }
-    if (line.to >= doc2.length)
-      break;
-    pos = line.to + 1;
+      if (r.to > paragraphFrom && r.from < paragraphFrom + paragraphText.length) {
+        const from2 = Math.max(0, r.from - paragraphFrom);
+        const to2 = Math.min(paragraphText.length, r.to - paragraphFrom);
+        sanitized = maskRange(sanitized, from2, to2);
+        blanked = blankRange(blanked, from2, to2);
+      }
+    }
+    for (const syntax of syntaxes) {
+      const { open, close } = syntax;
+      if (syntax.id === "underscore") {
+        for (const span of tokenizeEmphasis(sanitized)) {
+          if (span.delimiter === "_" && !span.strong) {
+            tokens.push({
+              from: paragraphFrom + span.from,
+              to: paragraphFrom + span.to,
+              open: 1,
+              close: 1,
+              emphasis: true
+            });
+          }
+        }
+      } else {
+        for (const span of tokenizeDelimited(blanked, open, close)) {
+          tokens.push({
+            from: paragraphFrom + span.from,
+            to: paragraphFrom + span.to,
+            open: open.length,
+            close: close.length,
+            emphasis: false
+          });
+        }
+      }
+    }
+  };
+  const lineText = (n) => n >= 1 && n <= doc2.lines ? doc2.line(n).text : null;
+  const tableRows = findTableRows(lineText, firstLine.number, lastLine.number + 1);
+  let pending = false;
+  for (let n = firstLine.number; n <= lastLine.number; n++) {
+    const line = doc2.line(n);
+    if (tableRows[n - firstLine.number]) {
+      if (pending)
+        flush();
+      pending = false;
+      if (isTableDelimiterRow(line.text))
+        continue;
+      for (const cell of splitTableCells(line.text)) {
+        paragraphFrom = line.from + cell.from;
+        paragraphText = line.text.slice(cell.from, cell.to);
+        flush();
+      }
+    } else if (pending && continuesParagraph(doc2.line(n - 1).text, line.text)) {
+      paragraphText += "\n" + blankQuotePrefix(line.text);
+    } else {
+      if (pending)
+        flush();
+      paragraphFrom = line.from;
+      paragraphText = blankQuotePrefix(line.text);
+      pending = true;
+    }
   }
-  return builder.finish();
+  if (pending)
+    flush();
+  return { tokens, scanned, lines: lastLine.number - firstLine.number + 1 };
+}
+function pipeLineRun(state, from, to) {
+  const doc2 = state.doc;
+  let first = doc2.lineAt(from).number;
+  let last = doc2.lineAt(to).number;
+  while (first > 1 && doc2.line(first - 1).text.includes("|"))
+    first--;
+  while (last < doc2.lines && doc2.line(last + 1).text.includes("|"))
+    last++;
+  return { from: doc2.line(first).from, to: doc2.line(last).to };
+}
+function getDirtyRanges(update) {
+  const dirty = [];
+  const { doc: doc2 } = update.state;
+  update.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+    let from = fromB;
+    let to = toB;
+    const edited = [
+      doc2.sliceString(doc2.lineAt(fromB).from, doc2.lineAt(toB).to),
+      update.startState.doc.sliceString(fromA, toA)
+    ];
+    if (edited.some((text) => text.includes("|") || text.split("\n").some((line) => isTableDelimiterRow(line)))) {
+      ({ from, to } = pipeLineRun(update.state, fromB, toB));
+    }
+    for (const r of collectSkippedRanges(update.state, fromB, toB)) {
+      from = Math.min(from, r.from);
+      to = Math.max(to, r.to);
+    }
+    for (const r of collectSkippedRanges(update.startState, fromA, toA)) {
+      from = Math.min(from, update.changes.mapPos(r.from, -1));
+      to = Math.max(to, update.changes.mapPos(r.to, 1));
+    }
+    dirty.push({ from, to });
+  });
+  return dirty;
 }
 var UnderlinePluginClass = class {
   constructor(view) {
-    this.decorations = buildDecorations(view);
+    this.tokens = RangeSet.empty;
+    /** Lines scanned by the most recent update — exposed for benchmarks. */
+    this.lastScannedLines = 0;
+    this.scanned = { from: view.viewport.from, to: view.viewport.to };
+    this.rescan(view.state, this.scanned);
+    this.decorations = this.buildDecorations(view);
   }
   update(update) {
-    if (update.docChanged || update.viewportChanged || update.selectionSet) {
-      this.decorations = buildDecorations(update.view);
+    this.lastScannedLines = 0;
+    const { state, viewport } = update.view;
+    const treeChanged = syntaxTree(update.startState) !== syntaxTree(state);
+    let tokensChanged = false;
+    if (update.startState.facet(underlineProfile) !== state.facet(underlineProfile)) {
+      tokensChanged = true;
+    }
+    if (update.startState.facet(underlineSyntaxes) !== state.facet(underlineSyntaxes)) {
+      this.tokens = RangeSet.empty;
+      this.scanned = { from: viewport.from, to: viewport.to };
+      this.rescan(state, this.scanned);
+      tokensChanged = true;
+    } else if (update.docChanged) {
+      this.tokens = this.tokens.map(update.changes);
+      this.scanned = mapRange(this.scanned, update.changes);
+      for (const dirty of getDirtyRanges(update)) {
+        const clipped = intersect(dirty, this.scanned);
+        if (clipped)
+          this.rescan(state, clipped);
+      }
+      tokensChanged = true;
+    } else if (treeChanged) {
+      this.rescan(state, this.scanned);
+      tokensChanged = true;
+    }
+    if (viewport.from !== this.scanned.from || viewport.to !== this.scanned.to) {
+      this.moveViewport(state, viewport);
+      tokensChanged = true;
+    }
+    if (tokensChanged || update.selectionSet) {
+      this.decorations = this.buildDecorations(update.view);
+    }
+  }
+  rescan(state, range, viewport = this.scanned) {
+    const { tokens, scanned, lines } = scanTokens(state, range.from, range.to, viewport);
+    this.lastScannedLines += lines;
+    this.tokens = this.tokens.update({
+      filterFrom: scanned.from,
+      filterTo: scanned.to,
+      filter: (from, to) => to < scanned.from || from > scanned.to,
+      add: tokens.map((t2) => new TokenMarker(t2.open, t2.close, t2.emphasis).range(t2.from, t2.to)),
+      sort: true
+    });
+  }
+  /** Drops tokens that left the viewport and scans only the lines that entered it. */
+  moveViewport(state, viewport) {
+    const overlap = intersect(this.scanned, viewport);
+    this.tokens = this.tokens.update({
+      filter: (from, to) => to > viewport.from && from < viewport.to
+    });
+    if (!overlap) {
+      this.rescan(state, viewport, viewport);
+    } else {
+      if (viewport.from < overlap.from) {
+        this.rescan(state, { from: viewport.from, to: overlap.from }, viewport);
+      }
+      if (viewport.to > overlap.to) {
+        this.rescan(state, { from: overlap.to, to: viewport.to }, viewport);
+      }
+    }
+    this.scanned = { from: viewport.from, to: viewport.to };
+  }
+  buildDecorations(view) {
+    const profile = view.state.facet(underlineProfile);
+    if (profile === "raw")
+      return Decoration.none;
+    const ranges = [];
+    const inObsidian = !!view.dom.closest(".markdown-source-view");
+    const selection = inObsidian ? view.state.selection.ranges : [];
+    const cursorInToken = (tokenFrom, tokenTo) => selection.some((r) => r.from <= tokenTo && r.to >= tokenFrom);
+    const cursor = this.tokens.iter();
+    for (; cursor.value; cursor.next()) {
+      const { from, to } = cursor;
+      const { open, close, emphasis } = cursor.value;
+      const mark = cursorInToken(from, to) ? underscoreActiveMarkDecoration : underscoreMarkDecoration;
+      let content2 = emphasis ? underscoreContentDecoration : plainContentDecoration;
+      if (profile === "italic")
+        content2 = italicContentDecoration;
+      ranges.push(
+        mark.range(from, from + open),
+        // opening mark
+        content2.range(from + open, to - close),
+        // content
+        mark.range(to - close, to)
+        // closing mark
+      );
     }
+    return Decoration.set(ranges, true);
   }
 };
+function mapRange(range, changes) {
+  return { from: changes.mapPos(range.from, -1), to: changes.mapPos(range.to, 1) };
+}
+function intersect(a, b) {
+  const from = Math.max(a.from, b.from);
+  const to = Math.min(a.to, b.to);
+  return from <= to ? { from, to } : null;
+}
 var underlineViewPlugin = ViewPlugin.fromClass(UnderlinePluginClass, {
-  decorations: (instance) => instance.decorations
+  decorations: (instance) => instance.decorations,
+  // styles.css hides or dims the marks according to this class
+  provide: () => EditorView.editorAttributes.compute([underlineProfile], (state) => ({
+    class: `underscore-profile-${state.facet(underlineProfile)}`
+  }))
 });
 
 // harness/harness.ts
@@ -14512,3 +15025,16 @@ new EditorView({
   }),
   parent: parent3
 });
+var parent4 = document.getElementById("editor-live-preview");
+if (!parent4)
+  throw new Error("No element #editor-live-preview");
+var livePreviewDoc = "_first span_ middle _second span_";
+var livePreviewView = new EditorView({
+  state: EditorState.create({
+    doc: livePreviewDoc,
+    selection: EditorSelection.cursor(livePreviewDoc.indexOf("second") + 2),
+    extensions: [underlineViewPlugin]
+  }),
+  parent: parent4
+});
+window.livePreviewView = livePreviewView;
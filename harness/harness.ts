@@ -1,4 +1,4 @@
-import { EditorState } from "@codemirror/state";
+import { EditorSelection, EditorState } from "@codemirror/state";
 import { EditorView } from "@codemirror/view";
 import { underlineViewPlugin } from "../src/editor-decoration";
 
@@ -31,3 +31,20 @@ new EditorView({
   }),
   parent: parent3,
 });
+
+// Case 4: Obsidian-like Live Preview wrapper (.markdown-source-view.is-live-preview)
+// Two tokens on one line, cursor inside the second — only its marks should show.
+const parent4 = document.getElementById("editor-live-preview");
+if (!parent4) throw new Error("No element #editor-live-preview");
+const livePreviewDoc = "_first span_ middle _second span_";
+const livePreviewView = new EditorView({
+  state: EditorState.create({
+    doc: livePreviewDoc,
+    selection: EditorSelection.cursor(livePreviewDoc.indexOf("second") + 2),
+    extensions: [underlineViewPlugin],
+  }),
+  parent: parent4,
+});
+
+// Exposed so e2e tests can move the cursor deterministically
+(window as unknown as { livePreviewView: EditorView }).livePreviewView = livePreviewView;
@@ -0,0 +1,94 @@
+/**
+ * Command-line entry point: renders a folder of notes to a static HTML site
+ * with the plugin's underline semantics. Runs under plain Node, without
+ * Obsidian.
+ *
+ *   underscore-underline-publish <input folder> <output folder> [--class <name>]
+ */
+
+import { promises as fs } from "fs";
+import { dirname, join, posix } from "path";
+import { DEFAULT_PUBLISH_OPTIONS, NoteIndex, PublishOptions, outputPath, renderNote, renderPage } from "./publish";
+
+const USAGE = "Usage: underscore-underline-publish <input folder> <output folder> [--class <name>]";
+
+/** Every file under `root` as a `/`-separated relative path, skipping hidden files and folders (.obsidian). */
+async function listFiles(root: string, dir = ""): Promise<string[]> {
+	const files: string[] = [];
+	for (const entry of await fs.readdir(join(root, dir), { withFileTypes: true })) {
+		if (entry.name.startsWith(".")) continue;
+		const path = dir ? posix.join(dir, entry.name) : entry.name;
+		if (entry.isDirectory()) files.push(...(await listFiles(root, path)));
+		else if (entry.isFile()) files.push(path);
+	}
+	return files;
+}
+
+/**
+ * Writes one HTML page per note of `input` into `output`, mirroring the
+ * folder structure, and copies the other files (attachments) alongside so
+ * links and embedded images resolve. Returns the number of pages written.
+ */
+export async function publishFolder(
+	input: string,
+	output: string,
+	options: PublishOptions = DEFAULT_PUBLISH_OPTIONS,
+): Promise<number> {
+	const files = await listFiles(input);
+	const index = new NoteIndex(files);
+	let pages = 0;
+	for (const path of files) {
+		const target = join(output, outputPath(path));
+		await fs.mkdir(dirname(target), { recursive: true });
+		if (!path.toLowerCase().endsWith(".md")) {
+			await fs.copyFile(join(input, path), target);
+			continue;
+		}
+		const markdown = await fs.readFile(join(input, path), "utf8");
+		const title = posix.basename(path).replace(/\.md$/i, "");
+		await fs.writeFile(target, renderPage(title, renderNote(markdown, path, index, options)));
+		pages++;
+	}
+	return pages;
+}
+
+/** Parses the arguments and runs the export. Returns the process exit code. */
+export async function runCli(args: string[], log = console.log, error = console.error): Promise<number> {
+	const positional: string[] = [];
+	const options: PublishOptions = { ...DEFAULT_PUBLISH_OPTIONS };
+	for (let i = 0; i < args.length; i++) {
+		if (args[i] === "--class") {
+			const value = args[++i];
+			if (value === undefined) {
+				error(USAGE);
+				return 2;
+			}
+			options.className = value;
+		} else if (args[i] === "--help" || args[i] === "-h") {
+			log(USAGE);
+			return 0;
+		} else {
+			positional.push(args[i]);
+		}
+	}
+	if (positional.length !== 2) {
+		error(USAGE);
+		return 2;
+	}
+
+	const [input, output] = positional;
+	try {
+		const pages = await publishFolder(input, output, options);
+		log(`Wrote ${pages} pages to ${output}`);
+		return 0;
+	} catch (e) {
+		error(e instanceof Error ? e.message : String(e));
+		return 1;
+	}
+}
+
+if (require.main === module) {
+	void runCli(process.argv.slice(2)).then((code) => {
+		process.exitCode = code;
+	});
+}
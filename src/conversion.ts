@@ -0,0 +1,155 @@
+/**
+ * Bulk conversions between underline and other markup, on the selection or
+ * the whole note. Spans are found with the shared tokenizer, so code, math,
+ * links and URLs are skipped exactly as in the editor, and a conversion
+ * that the tokenizer wouldn't read back as intended is left out.
+ */
+
+import { Edit, convertsCleanly, createRewriteContext, findMigrationSpans } from "./migration";
+import { HTML_SYNTAX, UnderlineSyntax } from "./syntax";
+import { findDelimitedSpans, findEmphasisSpans, findUnderlineSpans } from "./tokenizer";
+
+export type ConversionKind =
+	| "remove"              // every enabled syntax's marks are deleted
+	| "underline-to-italic" // _x_, ++x++ … → *x*
+	| "italic-to-underline" // *x* → _x_
+	| "html-to-underscore"  // <u>x</u> → _x_
+	| "underscore-to-html"; // _x_, ++x++ … → <u>x</u>
+
+/** One span to convert: its extent, marks included, and the mark edits. */
+export interface ConversionSpan {
+	from: number;
+	to: number;
+	edits: Edit[];
+}
+
+/** The command name and the notice text of each conversion. */
+export const CONVERSIONS: Record<ConversionKind, { name: string; notice: (count: number) => string }> = {
+	"remove": {
+		name: "Remove all underlines",
+		notice: (n) => `Removed ${n} ${n === 1 ? "underline" : "underlines"}.`,
+	},
+	"underline-to-italic": {
+		name: "Convert underline to italic (*)",
+		notice: (n) => `Converted ${n} ${n === 1 ? "underline" : "underlines"} to italics.`,
+	},
+	"italic-to-underline": {
+		name: "Convert italic (*) to underline",
+		notice: (n) => `Converted ${n} ${n === 1 ? "italic" : "italics"} to underlines.`,
+	},
+	"html-to-underscore": {
+		name: "Convert <u> HTML to underscores",
+		notice: (n) => `Converted ${n} <u> ${n === 1 ? "tag" : "tags"} to underscores.`,
+	},
+	"underscore-to-html": {
+		name: "Convert underlines to <u> HTML",
+		notice: (n) => `Converted ${n} ${n === 1 ? "underline" : "underlines"} to <u> tags.`,
+	},
+};
+
+/** Edits that replace a span's opening and closing marks. */
+function replaceMarks(from: number, to: number, open: number, close: number, text: [string, string]): Edit[] {
+	return [
+		{ from, to: from + open, text: text[0] },
+		{ from: to - close, to, text: text[1] },
+	];
+}
+
+/** The spans of one underline syntax, found with the same rules as the editor. */
+function findSpansOf(markdown: string, syntax: UnderlineSyntax): Array<{ from: number; to: number }> {
+	return syntax.id === "underscore"
+		? findUnderlineSpans(markdown)
+		: findDelimitedSpans(markdown, syntax.open, syntax.close);
+}
+
+/**
+ * Every span that `kind` converts and that overlaps one of `ranges` (or any
+ * span when there are no ranges), in document order. Spans outside the
+ * ranges are dropped before their conversion is checked.
+ */
+export function findConversionSpans(
+	markdown: string,
+	kind: ConversionKind,
+	syntaxes: UnderlineSyntax[],
+	ranges: Array<{ from: number; to: number }> = [],
+): ConversionSpan[] {
+	const include = (from: number, to: number) =>
+		ranges.length === 0 || ranges.some((r) => from < r.to && r.from < to);
+	let spans: ConversionSpan[] = [];
+	switch (kind) {
+		case "remove":
+			for (const syntax of syntaxes) {
+				const { open, close } = syntax;
+				for (const { from, to } of findSpansOf(markdown, syntax)) {
+					if (!include(from, to)) continue;
+					spans.push({ from, to, edits: replaceMarks(from, to, open.length, close.length, ["", ""]) });
+				}
+			}
+			break;
+		case "underline-to-italic": {
+			// Falls back to <em> where an asterisk would merge with its neighbours
+			const context = createRewriteContext(markdown);
+			for (const syntax of syntaxes) {
+				if (syntax.id === "underscore") {
+					spans.push(...findMigrationSpans(markdown, { convertHtml: false, include }));
+					continue;
+				}
+				const { open, close } = syntax;
+				for (const { from, to } of findSpansOf(markdown, syntax)) {
+					if (!include(from, to)) continue;
+					const asterisks = replaceMarks(from, to, open.length, close.length, ["*", "*"]);
+					const edits = convertsCleanly(markdown, asterisks, "*", context)
+						? asterisks
+						: replaceMarks(from, to, open.length, close.length, ["<em>", "</em>"]);
+					spans.push({ from, to, edits });
+				}
+			}
+			break;
+		}
+		case "html-to-underscore":
+			spans = findMigrationSpans(markdown, { convertHtml: true, include }).filter((s) => s.kind === "html");
+			break;
+		case "italic-to-underline": {
+			const context = createRewriteContext(markdown);
+			for (const { from, to, delimiter, strong } of findEmphasisSpans(markdown)) {
+				if (delimiter !== "*" || strong || !include(from, to)) continue;
+				const edits = replaceMarks(from, to, 1, 1, ["_", "_"]);
+				// An intraword *x* can't become _x_
+				if (convertsCleanly(markdown, edits, "_", context)) spans.push({ from, to, edits });
+			}
+			break;
+		}
+		case "underscore-to-html":
+			for (const syntax of syntaxes) {
+				if (syntax.id === "html") continue;
+				const { open, close } = syntax;
+				for (const { from, to } of findSpansOf(markdown, syntax)) {
+					if (!include(from, to)) continue;
+					const edits = replaceMarks(from, to, open.length, close.length, [HTML_SYNTAX.open, HTML_SYNTAX.close]);
+					spans.push({ from, to, edits });
+				}
+			}
+			break;
+	}
+	return spans
+		.map(({ from, to, edits }) => ({ from, to, edits }))
+		.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * The edits for one conversion: every span that overlaps one of `ranges`,
+ * or every span of the note when there are no ranges. Edits are in
+ * document order and never overlap.
+ */
+export function planConversion(
+	markdown: string,
+	kind: ConversionKind,
+	syntaxes: UnderlineSyntax[],
+	ranges: Array<{ from: number; to: number }> = [],
+): { edits: Edit[]; count: number } {
+	const spans = findConversionSpans(markdown, kind, syntaxes, ranges);
+	return {
+		edits: spans.flatMap((span) => span.edits).sort((a, b) => a.from - b.from),
+		count: spans.length,
+	};
+}
@@ -1,5 +1,12 @@
 import { syntaxTree } from "@codemirror/language";
-import { RangeSetBuilder } from "@codemirror/state";
+import {
+	ChangeDesc,
+	EditorState,
+	Facet,
+	Range,
+	RangeSet,
+	RangeValue,
+} from "@codemirror/state";
 import {
 	Decoration,
 	DecorationSet,
@@ -7,6 +14,19 @@ import {
 	ViewPlugin,
 	ViewUpdate,
 } from "@codemirror/view";
+import type { RenderProfile } from "./settings";
+import { UNDERSCORE_SYNTAX, UnderlineSyntax } from "./syntax";
+import {
+	blankQuotePrefix,
+	blankRange,
+	continuesParagraph,
+	findTableRows,
+	isTableDelimiterRow,
+	maskRange,
+	splitTableCells,
+	tokenizeDelimited,
+	tokenizeEmphasis,
+} from "./tokenizer";
 
 interface SyntaxNodeRef {
 	name: string;
@@ -14,91 +34,401 @@ interface SyntaxNodeRef {
 	to: number;
 }
 
+interface Span {
+	from: number;
+	to: number;
+}
+
+/** A matched underline: the range includes its marks. */
+interface Token extends Span {
+	open: number;      // length of the opening mark
+	close: number;     // length of the closing mark
+	emphasis: boolean; // `_text_`, which Obsidian also styles as italic
+}
+
+/**
+ * The syntaxes that count as underline in this editor. Without a provider
+ * (standalone harness, tests) only `_text_` does.
+ */
+export const underlineSyntaxes = Facet.define<UnderlineSyntax[], UnderlineSyntax[]>({
+	combine: (values) => values[0] ?? [UNDERSCORE_SYNTAX],
+});
+
+/**
+ * How this editor shows underlines (Source mode and Live Preview each have
+ * their own). Without a provider, marks are hidden as in Live Preview.
+ */
+export const underlineProfile = Facet.define<RenderProfile, RenderProfile>({
+	combine: (values) => values[0] ?? "hidden",
+});
+
 const underscoreMarkDecoration = Decoration.mark({
 	class: "cm-underscore-mark",
 });
 
+// Marks of the token under the cursor/selection stay visible (Live Preview only)
+const underscoreActiveMarkDecoration = Decoration.mark({
+	class: "cm-underscore-mark cm-underscore-mark-active",
+});
+
 const underscoreContentDecoration = Decoration.mark({
 	class: "cm-underscore-underline",
 });
 
-// Matches _content_ — Removed alphanumeric constraints to match Obsidian's native italics behavior
-// Content must not contain newlines or bare underscores.
-const UNDERSCORE_RE = /_([^_\n]+?)_/g;
+// ++text++, <u>text</u> and custom delimiters: not emphasis, so never italic
+const plainContentDecoration = Decoration.mark({
+	class: "cm-underscore-underline cm-underscore-plain",
+});
+
+// The "italic" profile: the content is italic and not underlined
+const italicContentDecoration = Decoration.mark({
+	class: "cm-underscore-italic",
+});
+
+// Code/inline-code/math/link nodes — no decoration inside them.
+// We still use the syntax tree here because node names are consistent.
+const SKIPPED_NODE_RE = /[Cc]ode|[Mm]ath|[Ll]ink|[Uu]rl/;
+
+/** Marker value for a matched token; the range is the token, the value its mark lengths. */
+class TokenMarker extends RangeValue {
+	constructor(readonly open: number, readonly close: number, readonly emphasis: boolean) {
+		super();
+	}
 
-function buildDecorations(view: EditorView): DecorationSet {
-	const builder = new RangeSetBuilder<Decoration>();
-	const { from: vpFrom, to: vpTo } = view.viewport;
-	const doc = view.state.doc;
+	eq(other: RangeValue): boolean {
+		return (
+			other instanceof TokenMarker &&
+			other.open === this.open &&
+			other.close === this.close &&
+			other.emphasis === this.emphasis
+		);
+	}
+}
 
-	// Collect code/inline-code/math/link ranges to skip decoration inside them.
-	// We still use the syntax tree here because node names are consistent.
-	const skippedRanges: Array<{ from: number; to: number }> = [];
-	syntaxTree(view.state).iterate({
+/** Skipped syntax nodes overlapping [from, to], collected from that range only. */
+function collectSkippedRanges(state: EditorState, from: number, to: number): Span[] {
+	const skipped: Span[] = [];
+	syntaxTree(state).iterate({
+		from,
+		to,
 		enter(node: SyntaxNodeRef) {
-			if (/[Cc]ode|[Mm]ath|[Ll]ink|[Uu]rl/.test(node.name)) {
-				skippedRanges.push({ from: node.from, to: node.to });
+			if (SKIPPED_NODE_RE.test(node.name)) {
+				skipped.push({ from: node.from, to: node.to });
 			}
 		},
 	});
+	return skipped;
+}
+
+// How far past the viewport a rescan may widen to reach a paragraph's edges
+const PARAGRAPH_MARGIN_LINES = 100;
 
-	// Inside Obsidian's Live Preview (.markdown-source-view), skip only the
-	// specific token that overlaps the cursor/selection, so the user sees raw
-	// _text_ while editing that span — matching native bold/italic behaviour.
-	// Other tokens on the same line remain decorated.
-	// Outside Obsidian (standalone harness, unit tests) decorate every token.
-
-	// Scan each line in the viewport for _..._
-	let pos = vpFrom;
-	while (pos <= Math.min(vpTo, doc.length)) {
-		const line = doc.lineAt(pos);
-		const lineText = line.text;
-		
-		// Blank out skipped ranges (code, math, links) so their internal underscores don't break regex pairing
-		let sanitizedLineText = lineText;
+/**
+ * Expands [from, to] to the paragraphs that contain it, since a _..._ span
+ * opened on one line may close on a later line of the same paragraph.
+ * Paragraphs are delimited as in splitParagraphs: by blank lines, new
+ * blocks, headings and rules, with a quote's lines kept together. The widening stops
+ * PARAGRAPH_MARGIN_LINES past `limit` (the viewport), so typing in a long
+ * run of prose without blank lines never rescans all of it.
+ */
+function paragraphBounds(state: EditorState, from: number, to: number, limit: Span): Span {
+	const doc = state.doc;
+	let first = doc.lineAt(from).number;
+	let last = doc.lineAt(to).number;
+	const minLine = Math.min(first, Math.max(1, doc.lineAt(limit.from).number - PARAGRAPH_MARGIN_LINES));
+	const maxLine = Math.max(last, Math.min(doc.lines, doc.lineAt(limit.to).number + PARAGRAPH_MARGIN_LINES));
+	while (first > minLine && continuesParagraph(doc.line(first - 1).text, doc.line(first).text)) {
+		first--;
+	}
+	while (last < maxLine && continuesParagraph(doc.line(last).text, doc.line(last + 1).text)) {
+		last++;
+	}
+	return { from: doc.line(first).from, to: doc.line(last).to };
+}
+
+/**
+ * Scans the paragraphs covering [from, to] for tokens of every enabled syntax.
+ * Returns the tokens, the scanned extent (whole paragraphs, within a margin
+ * around `limit`) and the number of lines scanned.
+ */
+function scanTokens(
+	state: EditorState,
+	from: number,
+	to: number,
+	limit: Span,
+): { tokens: Token[]; scanned: Span; lines: number } {
+	const doc = state.doc;
+	const scanned = paragraphBounds(state, from, to, limit);
+	const firstLine = doc.lineAt(scanned.from);
+	const lastLine = doc.lineAt(scanned.to);
+	const skippedRanges = collectSkippedRanges(state, scanned.from, scanned.to);
+	const syntaxes = state.facet(underlineSyntaxes);
+
+	const tokens: Token[] = [];
+	let paragraphFrom = firstLine.from;
+	let paragraphText = "";
+	const flush = () => {
+		// Mask skipped ranges (code, math, links) so their internal delimiters
+		// don't pair: emphasis only needs its delimiter characters masked, the
+		// other syntaxes need the whole range blanked
+		let sanitized = paragraphText;
+		let blanked = paragraphText;
 		for (const r of skippedRanges) {
-			if (r.to > line.from && r.from < line.to) {
-				const start = Math.max(0, r.from - line.from);
-				const end = Math.min(lineText.length, r.to - line.from);
-				sanitizedLineText =
-					sanitizedLineText.slice(0, start) +
-					" ".repeat(end - start) +
-					sanitizedLineText.slice(end);
+			if (r.to > paragraphFrom && r.from < paragraphFrom + paragraphText.length) {
+				const from = Math.max(0, r.from - paragraphFrom);
+				const to = Math.min(paragraphText.length, r.to - paragraphFrom);
+				sanitized = maskRange(sanitized, from, to);
+				blanked = blankRange(blanked, from, to);
+			}
+		}
+
+		for (const syntax of syntaxes) {
+			const { open, close } = syntax;
+			if (syntax.id === "underscore") {
+				// Only single-underscore emphasis is underlined; __strong__ stays bold
+				for (const span of tokenizeEmphasis(sanitized)) {
+					if (span.delimiter === "_" && !span.strong) {
+						tokens.push({
+							from: paragraphFrom + span.from,
+							to: paragraphFrom + span.to,
+							open: 1,
+							close: 1,
+							emphasis: true,
+						});
+					}
+				}
+			} else {
+				for (const span of tokenizeDelimited(blanked, open, close)) {
+					tokens.push({
+						from: paragraphFrom + span.from,
+						to: paragraphFrom + span.to,
+						open: open.length,
+						close: close.length,
+						emphasis: false,
+					});
+				}
 			}
 		}
+	};
 
-		UNDERSCORE_RE.lastIndex = 0;
-		let match: RegExpExecArray | null;
-		while ((match = UNDERSCORE_RE.exec(sanitizedLineText)) !== null) {
-			const from = line.from + match.index;
-			const to = from + match[0].length;
-			
-			// Add decorations in strictly ascending order:
-			builder.add(from, from + 1, underscoreMarkDecoration);         // opening _
-			builder.add(from + 1, to - 1, underscoreContentDecoration);    // content
-			builder.add(to - 1, to, underscoreMarkDecoration);             // closing _
+	const lineText = (n: number) => (n >= 1 && n <= doc.lines ? doc.line(n).text : null);
+	const tableRows = findTableRows(lineText, firstLine.number, lastLine.number + 1);
+	let pending = false;
+	for (let n = firstLine.number; n <= lastLine.number; n++) {
+		const line = doc.line(n);
+		if (tableRows[n - firstLine.number]) {
+			// Each table cell is scanned on its own; the delimiter row has no content
+			if (pending) flush();
+			pending = false;
+			if (isTableDelimiterRow(line.text)) continue;
+			for (const cell of splitTableCells(line.text)) {
+				paragraphFrom = line.from + cell.from;
+				paragraphText = line.text.slice(cell.from, cell.to);
+				flush();
+			}
+		} else if (pending && continuesParagraph(doc.line(n - 1).text, line.text)) {
+			paragraphText += "\n" + blankQuotePrefix(line.text);
+		} else {
+			if (pending) flush();
+			paragraphFrom = line.from;
+			paragraphText = blankQuotePrefix(line.text);
+			pending = true;
 		}
-		if (line.to >= doc.length) break;
-		pos = line.to + 1;
 	}
+	if (pending) flush();
 
-	return builder.finish();
+	return { tokens, scanned, lines: lastLine.number - firstLine.number + 1 };
 }
 
+/**
+ * The lines of [from, to] widened through the adjacent lines that contain a
+ * pipe: the lines whose table-row status an edit there can change.
+ */
+function pipeLineRun(state: EditorState, from: number, to: number): Span {
+	const doc = state.doc;
+	let first = doc.lineAt(from).number;
+	let last = doc.lineAt(to).number;
+	while (first > 1 && doc.line(first - 1).text.includes("|")) first--;
+	while (last < doc.lines && doc.line(last + 1).text.includes("|")) last++;
+	return { from: doc.line(first).from, to: doc.line(last).to };
+}
+
+/**
+ * Document ranges that must be rescanned after a change: the edited lines,
+ * widened to any skipped node (code fence, math block) that starts or stops
+ * covering them — opening a ``` fence changes how every following line scans —
+ * and, for edits involving a pipe or a delimiter row, to the surrounding
+ * table, whose rows a `|---|` line or the header decides.
+ */
+function getDirtyRanges(update: ViewUpdate): Span[] {
+	const dirty: Span[] = [];
+	const { doc } = update.state;
+	update.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+		let from = fromB;
+		let to = toB;
+		const edited = [
+			doc.sliceString(doc.lineAt(fromB).from, doc.lineAt(toB).to),
+			update.startState.doc.sliceString(fromA, toA),
+		];
+		if (edited.some((text) => text.includes("|") || text.split("\n").some((line) => isTableDelimiterRow(line)))) {
+			({ from, to } = pipeLineRun(update.state, fromB, toB));
+		}
+		for (const r of collectSkippedRanges(update.state, fromB, toB)) {
+			from = Math.min(from, r.from);
+			to = Math.max(to, r.to);
+		}
+		for (const r of collectSkippedRanges(update.startState, fromA, toA)) {
+			from = Math.min(from, update.changes.mapPos(r.from, -1));
+			to = Math.max(to, update.changes.mapPos(r.to, 1));
+		}
+		dirty.push({ from, to });
+	});
+	return dirty;
+}
+
+/**
+ * Keeps the matched tokens for the viewport in a RangeSet that is mapped
+ * through document changes. Only edited lines and lines newly scrolled into
+ * view are rescanned; selection changes re-derive decorations from the
+ * stored tokens without touching the document or the syntax tree.
+ */
 class UnderlinePluginClass {
 	decorations: DecorationSet;
+	private tokens: RangeSet<TokenMarker> = RangeSet.empty;
+	/** Lines scanned by the most recent update — exposed for benchmarks. */
+	lastScannedLines = 0;
+	private scanned: Span;
 
 	constructor(view: EditorView) {
-		this.decorations = buildDecorations(view);
+		this.scanned = { from: view.viewport.from, to: view.viewport.to };
+		this.rescan(view.state, this.scanned);
+		this.decorations = this.buildDecorations(view);
 	}
 
 	update(update: ViewUpdate) {
-		if (update.docChanged || update.viewportChanged || update.selectionSet) {
-			this.decorations = buildDecorations(update.view);
+		this.lastScannedLines = 0;
+		const { state, viewport } = update.view;
+		const treeChanged = syntaxTree(update.startState) !== syntaxTree(state);
+		let tokensChanged = false;
+
+		if (update.startState.facet(underlineProfile) !== state.facet(underlineProfile)) {
+			tokensChanged = true; // same tokens, different decorations
 		}
+
+		if (update.startState.facet(underlineSyntaxes) !== state.facet(underlineSyntaxes)) {
+			// Syntax settings changed: every token may be different
+			this.tokens = RangeSet.empty;
+			this.scanned = { from: viewport.from, to: viewport.to };
+			this.rescan(state, this.scanned);
+			tokensChanged = true;
+		} else if (update.docChanged) {
+			this.tokens = this.tokens.map(update.changes);
+			this.scanned = mapRange(this.scanned, update.changes);
+			for (const dirty of getDirtyRanges(update)) {
+				const clipped = intersect(dirty, this.scanned);
+				if (clipped) this.rescan(state, clipped);
+			}
+			tokensChanged = true;
+		} else if (treeChanged) {
+			// Background parse progress without an edit: node extents may have moved
+			this.rescan(state, this.scanned);
+			tokensChanged = true;
+		}
+
+		if (viewport.from !== this.scanned.from || viewport.to !== this.scanned.to) {
+			this.moveViewport(state, viewport);
+			tokensChanged = true;
+		}
+
+		if (tokensChanged || update.selectionSet) {
+			this.decorations = this.buildDecorations(update.view);
+		}
+	}
+
+	private rescan(state: EditorState, range: Span, viewport: Span = this.scanned) {
+		const { tokens, scanned, lines } = scanTokens(state, range.from, range.to, viewport);
+		this.lastScannedLines += lines;
+		this.tokens = this.tokens.update({
+			filterFrom: scanned.from,
+			filterTo: scanned.to,
+			filter: (from, to) => to < scanned.from || from > scanned.to,
+			add: tokens.map((t) => new TokenMarker(t.open, t.close, t.emphasis).range(t.from, t.to)),
+			sort: true,
+		});
 	}
+
+	/** Drops tokens that left the viewport and scans only the lines that entered it. */
+	private moveViewport(state: EditorState, viewport: Span) {
+		const overlap = intersect(this.scanned, viewport);
+		// Keep tokens that straddle a viewport edge — a span may cross lines
+		this.tokens = this.tokens.update({
+			filter: (from, to) => to > viewport.from && from < viewport.to,
+		});
+		if (!overlap) {
+			this.rescan(state, viewport, viewport);
+		} else {
+			if (viewport.from < overlap.from) {
+				this.rescan(state, { from: viewport.from, to: overlap.from }, viewport);
+			}
+			if (viewport.to > overlap.to) {
+				this.rescan(state, { from: overlap.to, to: viewport.to }, viewport);
+			}
+		}
+		this.scanned = { from: viewport.from, to: viewport.to };
+	}
+
+	private buildDecorations(view: EditorView): DecorationSet {
+		const profile = view.state.facet(underlineProfile);
+		if (profile === "raw") return Decoration.none;
+		const ranges: Range<Decoration>[] = [];
+
+		// Inside Obsidian's Live Preview (.markdown-source-view), reveal the marks
+		// of only the specific token that overlaps the cursor/selection, so the user
+		// sees raw _text_ while editing that span — matching native bold/italic
+		// behaviour. Other tokens on the same line keep their marks hidden.
+		// Outside Obsidian (standalone harness, unit tests) no token is revealed.
+		const inObsidian = !!view.dom.closest(".markdown-source-view");
+		const selection = inObsidian ? view.state.selection.ranges : [];
+		const cursorInToken = (tokenFrom: number, tokenTo: number): boolean =>
+			selection.some((r) => r.from <= tokenTo && r.to >= tokenFrom);
+
+		const cursor = this.tokens.iter();
+		for (; cursor.value; cursor.next()) {
+			const { from, to } = cursor;
+			const { open, close, emphasis } = cursor.value;
+			const mark = cursorInToken(from, to)
+				? underscoreActiveMarkDecoration
+				: underscoreMarkDecoration;
+			let content = emphasis ? underscoreContentDecoration : plainContentDecoration;
+			if (profile === "italic") content = italicContentDecoration;
+
+			ranges.push(
+				mark.range(from, from + open),                          // opening mark
+				content.range(from + open, to - close),                 // content
+				mark.range(to - close, to),                             // closing mark
+			);
+		}
+
+		// Nested spans (`__a_ b_`) interleave, so let CodeMirror sort the ranges
+		return Decoration.set(ranges, true);
+	}
+}
+
+function mapRange(range: Span, changes: ChangeDesc): Span {
+	return { from: changes.mapPos(range.from, -1), to: changes.mapPos(range.to, 1) };
+}
+
+function intersect(a: Span, b: Span): Span | null {
+	const from = Math.max(a.from, b.from);
+	const to = Math.min(a.to, b.to);
+	return from <= to ? { from, to } : null;
 }
 
 export const underlineViewPlugin = ViewPlugin.fromClass(UnderlinePluginClass, {
 	decorations: (instance: UnderlinePluginClass) => instance.decorations,
+	// styles.css hides or dims the marks according to this class
+	provide: () =>
+		EditorView.editorAttributes.compute([underlineProfile], (state) => ({
+			class: `underscore-profile-${state.facet(underlineProfile)}`,
+		})),
 });
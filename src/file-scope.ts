@@ -0,0 +1,99 @@
+/**
+ * Which notes `_text_` underlines in. Some notes really use `_` for italics
+ * (imported papers, Zettelkasten exports): a frontmatter property or the
+ * folder globs in settings turn the underscore syntax off for them, and
+ * their `_text_` keeps Obsidian's italics. The other syntaxes aren't
+ * ambiguous and stay on everywhere.
+ */
+
+import type { FrontMatterCache } from "obsidian";
+import { UnderlineSettings, getEnabledSyntaxes } from "./settings";
+import type { UnderlineSyntax } from "./syntax";
+
+/** `underline: false` turns underscore underlines off for a note, `true` forces them on. */
+export const UNDERLINE_PROPERTY = "underline";
+/** `underscore-mode: italic` turns them off, `underscore-mode: underline` forces them on. */
+export const UNDERSCORE_MODE_PROPERTY = "underscore-mode";
+
+/**
+ * Converts a folder glob to a regular expression over vault paths: `*` and
+ * `?` stay within one folder name, `**` spans any number of folders.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		const ch = glob[i];
+		if (ch === "*" && glob[i + 1] === "*") {
+			// `**/` also matches no folder at all
+			const slash = glob[i + 2] === "/";
+			source += slash ? "(?:.*/)?" : ".*";
+			i += slash ? 2 : 1;
+		} else if (ch === "*") {
+			source += "[^/]*";
+		} else if (ch === "?") {
+			source += "[^/]";
+		} else {
+			source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * True when `path` is matched by `glob` or lies in a folder it matches, so
+ * `Imports`, `Imports/**` and `Papers 20??` all cover the notes below them.
+ */
+export function matchesFolderGlob(path: string, glob: string): boolean {
+	const pattern = glob.trim().replace(/^\/+|\/+$/g, "");
+	if (pattern === "") return false;
+	const re = globToRegExp(pattern);
+	const parts = path.split("/");
+	for (let n = parts.length; n > 0; n--) {
+		if (re.test(parts.slice(0, n).join("/"))) return true;
+	}
+	return false;
+}
+
+/** The note's own choice: true or false when its frontmatter sets one, null otherwise. */
+export function getFrontmatterOverride(frontmatter: FrontMatterCache | null | undefined): boolean | null {
+	const underline: unknown = frontmatter?.[UNDERLINE_PROPERTY];
+	if (underline === true || underline === "true") return true;
+	if (underline === false || underline === "false") return false;
+
+	const mode: unknown = frontmatter?.[UNDERSCORE_MODE_PROPERTY];
+	if (typeof mode === "string") {
+		if (mode.trim().toLowerCase() === "underline") return true;
+		if (mode.trim().toLowerCase() === "italic") return false;
+	}
+	return null;
+}
+
+/**
+ * Whether `_text_` underlines in the note at `path`. Frontmatter wins over
+ * the folder settings; otherwise a note must be in an included folder (any
+ * folder when none are listed) and in no excluded one.
+ */
+export function isUnderscoreEnabled(
+	settings: UnderlineSettings,
+	path: string,
+	frontmatter: FrontMatterCache | null | undefined,
+): boolean {
+	const override = getFrontmatterOverride(frontmatter);
+	if (override !== null) return override;
+	const included =
+		settings.includeFolders.length === 0 ||
+		settings.includeFolders.some((glob) => matchesFolderGlob(path, glob));
+	return included && !settings.excludeFolders.some((glob) => matchesFolderGlob(path, glob));
+}
+
+/** The syntaxes that count as underline in one note. */
+export function getFileSyntaxes(
+	settings: UnderlineSettings,
+	path: string,
+	frontmatter: FrontMatterCache | null | undefined,
+): UnderlineSyntax[] {
+	const syntaxes = getEnabledSyntaxes(settings);
+	return isUnderscoreEnabled(settings, path, frontmatter)
+		? syntaxes
+		: syntaxes.filter((syntax) => syntax.id !== "underscore");
+}
@@ -1,22 +1,542 @@
-import { Plugin, MarkdownPostProcessorContext, Editor } from "obsidian";
-import { underlineViewPlugin } from "./editor-decoration";
-import { transformElement } from "./reading-mode";
-import { toggleUnderlineCommand } from "./toggle-command";
+import {
+	Component,
+	Editor,
+	MarkdownPostProcessorContext,
+	MarkdownRenderer,
+	MarkdownView,
+	Notice,
+	Plugin,
+	TAbstractFile,
+	TFile,
+	TFolder,
+	WorkspaceLeaf,
+	debounce,
+	editorInfoField,
+	editorLivePreviewField,
+	htmlToMarkdown,
+	normalizePath,
+} from "obsidian";
+import { Extension } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { underlineProfile, underlineSyntaxes, underlineViewPlugin } from "./editor-decoration";
+import { getFileSyntaxes, isUnderscoreEnabled } from "./file-scope";
+import { isExportRender, transformElement } from "./reading-mode";
+import { resolveRenderedSource } from "./rendered-source";
+import { tableWidgetPlugin } from "./table-widget";
+import { CONVERSIONS, ConversionKind, planConversion } from "./conversion";
+import { countUnderlineSpans, formatUnderlineStatus } from "./status-bar";
+import { isSelectionUnderlined, toggleUnderlineCommand } from "./toggle-command";
+import { underscoreTyping } from "./typing";
+import { NoteUnderlines, UnderlineEntry, UnderlineIndex } from "./underline-index";
+import { UnderlinesView, VIEW_TYPE_UNDERLINES } from "./underline-view";
+import {
+	copyEditorAsRichText,
+	getReadingSelectionPayload,
+	handleCopyEvent,
+	writeClipboard,
+} from "./rich-copy";
+import { handleUnderlinePaste } from "./paste-handler";
+import { MigrationManifest, revertMigration } from "./migration";
+import { MigrationModal } from "./migration-modal";
+import {
+	DEFAULT_SETTINGS,
+	UnderlineSettings,
+	getEnabledSyntaxes,
+	getToggleSyntax,
+	getUnderlineCssVariables,
+} from "./settings";
+import { UnderlineSettingTab } from "./settings-tab";
+import type { UnderlineSyntax } from "./syntax";
 
 export default class UnderlinePlugin extends Plugin {
-	onload() {
-		this.registerEditorExtension(underlineViewPlugin);
+	settings!: UnderlineSettings;
+	// Mutated in place and re-read by workspace.updateOptions() on settings changes
+	private editorExtensions: Extension[] = [];
+	// Whether `_text_` underlined in each note when it was last rendered
+	private underscoreScopes = new Map<string, boolean>();
+	private statusBarEl!: HTMLElement;
+	// Counting a long note's spans on every keystroke would be wasted work
+	private requestStatusBarUpdate = debounce(() => this.updateStatusBar(), 150, true);
+	// Built the first time the panel shows the whole vault, then kept up to date
+	private underlineIndex: Promise<UnderlineIndex> | null = null;
+	// The source behind each sectionless render, by the element holding its
+	// blocks, so that a render reads its note once; dropped when a note changes
+	private renderedSources = new WeakMap<HTMLElement, { path: string; source: Promise<string | null> }>();
+
+	async onload() {
+		await this.loadSettings();
+		this.applyCssVariables();
+		this.addSettingTab(new UnderlineSettingTab(this.app, this));
+
+		this.updateEditorExtensions();
+		this.registerEditorExtension(this.editorExtensions);
 		this.registerMarkdownPostProcessor(
-			(element: HTMLElement, ctx: MarkdownPostProcessorContext) => {
-				transformElement(element, ctx);
+			async (element: HTMLElement, ctx: MarkdownPostProcessorContext) => {
+				const syntaxes = this.getSyntaxesFor(ctx.sourcePath);
+				// Embeds, hover previews, canvas cards and PDF export have no
+				// section info: classify _text_ against the note they were rendered from
+				const sectionless = ctx.getSectionInfo(element) === null;
+				const embedded = sectionless && !isExportRender(element);
+				const profile = this.settings.profiles[embedded ? "embed" : "reading"];
+				const needsSource =
+					syntaxes.some((s) => s.id === "underscore") &&
+					element.querySelector("em") !== null &&
+					sectionless;
+				let source: string | null = null;
+				if (needsSource) {
+					// Export renders the open note: reading its text synchronously
+					// puts the classes in place before the PDF is captured
+					source =
+						(isExportRender(element) ? this.getOpenNoteText(ctx.sourcePath) : null) ??
+						(await this.getRenderedSource(element, ctx.sourcePath));
+				}
+				transformElement(element, ctx, syntaxes, source, profile);
 			},
 		);
+		// A note's underline property, or its folder after a move, can switch `_text_` off or on
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file: TFile, data: string) => {
+				this.renderedSources = new WeakMap();
+				this.checkUnderscoreScope(file.path);
+				void this.indexNote(file, data);
+			}),
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file: TAbstractFile, oldPath: string) => {
+				if (!(file instanceof TFile)) return;
+				this.checkUnderscoreScope(file.path, oldPath);
+				void this.unindexNote(oldPath).then(async () => {
+					if (file.extension === "md") await this.indexNote(file, await this.app.vault.cachedRead(file));
+				});
+			}),
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file: TAbstractFile) => void this.unindexNote(file.path)),
+		);
+
+		this.registerView(VIEW_TYPE_UNDERLINES, (leaf: WorkspaceLeaf) => new UnderlinesView(leaf, this));
+		this.addCommand({
+			id: "open-underlines-panel",
+			name: "Open underlines panel",
+			callback: () => void this.openUnderlinesPanel(),
+		});
+
 		this.addCommand({
 			id: "toggle-underline",
 			name: "Toggle underline",
-			editorCallback: (editor: Editor) => {
-				toggleUnderlineCommand(editor);
+			// An icon lets the command be pinned to the mobile toolbar
+			icon: "underline",
+			// Unavailable in notes where no underline syntax is enabled
+			editorCheckCallback: (checking: boolean, editor: Editor, ctx) => {
+				const syntax = this.getToggleSyntaxFor(ctx.file?.path ?? null);
+				if (!syntax) return false;
+				if (!checking) this.toggleUnderline(editor, syntax);
+				return true;
 			},
 		});
+		this.registerEvent(
+			this.app.workspace.on("editor-menu", (menu, editor: Editor, info) => {
+				const syntax = this.getToggleSyntaxFor(info.file?.path ?? null);
+				if (!syntax) return;
+				menu.addItem((item) =>
+					item
+						.setTitle("Underline")
+						.setIcon("underline")
+						.setSection("format")
+						.setChecked(isSelectionUnderlined(editor, syntax))
+						.onClick(() => this.toggleUnderline(editor, syntax)),
+				);
+			}),
+		);
+
+		for (const [kind, { name }] of Object.entries(CONVERSIONS)) {
+			this.addCommand({
+				id: `convert-${kind}`,
+				name,
+				editorCallback: (editor: Editor, ctx) =>
+					this.convertUnderlines(editor, kind as ConversionKind, ctx.file?.path ?? null),
+			});
+		}
+
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass("underscore-status-bar");
+		this.statusBarEl.setAttr("aria-label", "Underlines in this note");
+		this.registerEvent(this.app.workspace.on("active-leaf-change", () => this.updateStatusBar()));
+		this.registerEvent(this.app.workspace.on("layout-change", () => this.updateStatusBar()));
+		this.addCommand({
+			id: "copy-as-rich-text",
+			name: "Copy as rich text",
+			checkCallback: (checking: boolean) => {
+				const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view) return false;
+				if (!checking) {
+					this.copyAsRichText(view).catch(() => new Notice("Couldn't copy as rich text."));
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "migrate-underscore-italics",
+			name: "Migrate underscore italics to asterisks",
+			callback: () => new MigrationModal(this.app, this).open(),
+		});
+		this.addCommand({
+			id: "undo-italics-migration",
+			name: "Undo last italics migration",
+			callback: () => void this.undoMigration(),
+		});
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file: TAbstractFile) => {
+				if (!(file instanceof TFolder)) return;
+				menu.addItem((item) =>
+					item
+						.setTitle("Migrate underscore italics")
+						.setIcon("underline")
+						.onClick(() => new MigrationModal(this.app, this, file.path).open()),
+				);
+			}),
+		);
+
+		this.registerEvent(
+			this.app.workspace.on("editor-paste", (evt: ClipboardEvent, editor: Editor, info) => {
+				if (!this.settings.convertPastedUnderlines) return;
+				const path = info.file?.path;
+				handleUnderlinePaste(
+					evt,
+					editor,
+					(html) => htmlToMarkdown(html),
+					path ? this.getSyntaxesFor(path) : getEnabledSyntaxes(this.settings),
+				);
+			}),
+		);
+
+		this.registerDomEvent(document, "copy", (event: ClipboardEvent) => {
+			if (!this.settings.richTextCopy) return;
+			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+			const path = view?.file?.path;
+			handleCopyEvent(
+				event,
+				view?.editor ?? null,
+				(markdown) => this.renderMarkdown(markdown, path ?? ""),
+				path ? this.getSyntaxesFor(path) : getEnabledSyntaxes(this.settings),
+			)?.catch(() => new Notice("Couldn't copy the underlines as rich text; the plain text was copied."));
+		});
+	}
+
+	onunload() {
+		for (const name of Object.keys(getUnderlineCssVariables(this.settings))) {
+			document.body.style.removeProperty(name);
+		}
+	}
+
+	async loadSettings() {
+		const data = (await this.loadData()) as Partial<UnderlineSettings> | null;
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// A copy, so changing one mode never touches the defaults
+		this.settings.profiles = { ...DEFAULT_SETTINGS.profiles, ...data?.profiles };
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+		this.applyCssVariables();
+		this.updateEditorExtensions();
+		this.refreshViews();
+		this.updateStatusBar();
+		// Syntaxes or folders may have changed: index again on next use
+		this.underlineIndex = null;
+		this.refreshUnderlinesPanels();
+	}
+
+	private updateEditorExtensions() {
+		this.editorExtensions.splice(
+			0,
+			this.editorExtensions.length,
+			// A new provider on every call, so reconfiguring recomputes each editor's syntaxes
+			underlineSyntaxes.compute([editorInfoField], (state) => {
+				const file = state.field(editorInfoField, false)?.file;
+				return file ? this.getSyntaxesFor(file.path) : getEnabledSyntaxes(this.settings);
+			}),
+			underlineProfile.compute([editorLivePreviewField], (state) =>
+				state.field(editorLivePreviewField, false) === false
+					? this.settings.profiles.source
+					: this.settings.profiles.livePreview,
+			),
+			underlineViewPlugin,
+			tableWidgetPlugin,
+			underscoreTyping(
+				{
+					wrapSelection: this.settings.wrapSelectionOnType,
+					overtype: this.settings.overtypeClosingMark,
+					deletePair: this.settings.deleteEmptyPair,
+				},
+				(view) => view.state.field(editorInfoField, false)?.editor ?? null,
+			),
+			EditorView.updateListener.of((update) => {
+				if (update.docChanged || update.selectionSet) this.requestStatusBarUpdate();
+			}),
+		);
+	}
+
+	/** The syntax Toggle underline inserts in the note at `path`, or null when it has none. */
+	private getToggleSyntaxFor(path: string | null): UnderlineSyntax | null {
+		return getToggleSyntax(
+			this.settings,
+			path ? this.getSyntaxesFor(path) : getEnabledSyntaxes(this.settings),
+		);
+	}
+
+	private toggleUnderline(editor: Editor, syntax: UnderlineSyntax) {
+		toggleUnderlineCommand(editor, { multiLine: this.settings.multiLineToggle, syntax });
+	}
+
+	/**
+	 * Converts the spans in the selection, or in the whole note when nothing
+	 * is selected, as one undoable edit.
+	 */
+	private convertUnderlines(editor: Editor, kind: ConversionKind, path: string | null) {
+		const ranges = editor
+			.listSelections()
+			.map(({ anchor, head }) => {
+				const a = editor.posToOffset(anchor);
+				const b = editor.posToOffset(head);
+				return { from: Math.min(a, b), to: Math.max(a, b) };
+			})
+			.filter((range) => range.from < range.to);
+		const syntaxes = path ? this.getSyntaxesFor(path) : getEnabledSyntaxes(this.settings);
+		const { edits, count } = planConversion(editor.getValue(), kind, syntaxes, ranges);
+		if (edits.length > 0) {
+			editor.transaction({
+				changes: edits.map(({ from, to, text }) => ({
+					from: editor.offsetToPos(from),
+					to: editor.offsetToPos(to),
+					text,
+				})),
+			});
+		}
+		new Notice(CONVERSIONS[kind].notice(count));
+	}
+
+	/**
+	 * Shows whether the cursor is in an underline and how many the active
+	 * note has; in reading view only the count. Hidden without a note.
+	 */
+	private updateStatusBar() {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view?.file) {
+			this.statusBarEl.toggle(false);
+			return;
+		}
+		const editing = view.getMode() === "source";
+		const syntaxes = this.getSyntaxesFor(view.file.path);
+		const count = countUnderlineSpans(editing ? view.editor.getValue() : view.getViewData(), syntaxes);
+		const inUnderline = editing && syntaxes.some((syntax) => isSelectionUnderlined(view.editor, syntax));
+		this.statusBarEl.setText(formatUnderlineStatus(inUnderline, count));
+		this.statusBarEl.toggle(true);
+	}
+
+	/** The syntaxes that count as underline in the note at `path`, per its frontmatter and folder. */
+	getSyntaxesFor(path: string): UnderlineSyntax[] {
+		const frontmatter = this.app.metadataCache.getCache(path)?.frontmatter;
+		this.underscoreScopes.set(path, isUnderscoreEnabled(this.settings, path, frontmatter));
+		return getFileSyntaxes(this.settings, path, frontmatter);
+	}
+
+	/** Re-renders a note whose `_text_` switched between underline and italics. */
+	private checkUnderscoreScope(path: string, previousPath = path) {
+		const previous = this.underscoreScopes.get(previousPath);
+		if (previous === undefined) return; // not rendered since loading
+		this.underscoreScopes.delete(previousPath);
+		const frontmatter = this.app.metadataCache.getCache(path)?.frontmatter;
+		const enabled = isUnderscoreEnabled(this.settings, path, frontmatter);
+		this.underscoreScopes.set(path, enabled);
+		if (enabled === previous) return;
+
+		this.updateEditorExtensions();
+		this.app.workspace.updateOptions();
+		this.app.workspace.getLeavesOfType("markdown").forEach((leaf) => {
+			if (leaf.view instanceof MarkdownView && leaf.view.file?.path === path) {
+				leaf.view.previewMode.rerender(true);
+			}
+		});
+	}
+
+	private applyCssVariables() {
+		const vars = getUnderlineCssVariables(this.settings);
+		for (const [name, value] of Object.entries(vars)) {
+			document.body.style.setProperty(name, value);
+		}
+	}
+
+	private async copyAsRichText(view: MarkdownView) {
+		if (view.getMode() === "preview") {
+			const selection = activeWindow.getSelection();
+			const payload = selection ? getReadingSelectionPayload(selection) : null;
+			if (!payload) {
+				new Notice("Select underlined text to copy.");
+				return;
+			}
+			await writeClipboard(payload.html, payload.plain);
+		} else {
+			const path = view.file?.path;
+			await copyEditorAsRichText(
+				view.editor,
+				(markdown) => this.renderMarkdown(markdown, path ?? ""),
+				path ? this.getSyntaxesFor(path) : getEnabledSyntaxes(this.settings),
+			);
+		}
+		new Notice("Copied as rich text.");
+	}
+
+	/** The current text of a note open in an editor, or null when it isn't open. */
+	getOpenNoteText(path: string): string | null {
+		for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+			if (leaf.view instanceof MarkdownView && leaf.view.file?.path === path) {
+				return leaf.view.editor.getValue();
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * The source of a block rendered without section info, read once for all
+	 * the blocks of its render: they share the element they are rendered into.
+	 */
+	private getRenderedSource(element: HTMLElement, path: string): Promise<string | null> {
+		const container = element.parentElement;
+		const cached = container ? this.renderedSources.get(container) : undefined;
+		if (cached?.path === path) return cached.source;
+		const source = resolveRenderedSource(this.app, element, path);
+		if (container) this.renderedSources.set(container, { path, source });
+		return source;
+	}
+
+	/** Reveals the underlines panel in the right sidebar, creating it if needed. */
+	private async openUnderlinesPanel() {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_UNDERLINES)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) return;
+			await leaf.setViewState({ type: VIEW_TYPE_UNDERLINES, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	private refreshUnderlinesPanels() {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_UNDERLINES)) {
+			if (leaf.view instanceof UnderlinesView) leaf.view.requestRefresh();
+		}
+	}
+
+	/** The underlines of every note in the vault, indexing it on first use. */
+	async getVaultUnderlines(): Promise<NoteUnderlines[]> {
+		if (!this.underlineIndex) {
+			this.underlineIndex = (async () => {
+				const index = new UnderlineIndex();
+				for (const file of this.app.vault.getMarkdownFiles()) {
+					index.set(file.path, await this.app.vault.cachedRead(file), this.getIndexSyntaxes(file.path));
+				}
+				return index;
+			})();
+		}
+		return (await this.underlineIndex).list();
+	}
+
+	/**
+	 * The note's syntaxes for the index. Unlike getSyntaxesFor, this doesn't
+	 * mark the note as rendered, so indexing never triggers re-renders.
+	 */
+	private getIndexSyntaxes(path: string): UnderlineSyntax[] {
+		return getFileSyntaxes(this.settings, path, this.app.metadataCache.getCache(path)?.frontmatter);
+	}
+
+	private async indexNote(file: TFile, markdown: string) {
+		if (this.underlineIndex) {
+			(await this.underlineIndex).set(file.path, markdown, this.getIndexSyntaxes(file.path));
+		}
+		this.refreshUnderlinesPanels();
+	}
+
+	private async unindexNote(path: string) {
+		if (this.underlineIndex) (await this.underlineIndex).delete(path);
+		this.refreshUnderlinesPanels();
+	}
+
+	/** Opens the note and selects the span, or scrolls to its line in reading view. */
+	async revealUnderline(path: string, entry: UnderlineEntry) {
+		const file = this.app.vault.getFileByPath(path);
+		if (!file) return;
+		const { workspace } = this.app;
+		const leaf =
+			workspace
+				.getLeavesOfType("markdown")
+				.find((l) => l.view instanceof MarkdownView && l.view.file?.path === path) ??
+			workspace.getLeaf(false);
+		if (!(leaf.view instanceof MarkdownView && leaf.view.file?.path === path)) await leaf.openFile(file);
+		workspace.setActiveLeaf(leaf, { focus: true });
+		const view = leaf.view;
+		if (!(view instanceof MarkdownView)) return;
+		if (view.getMode() === "preview") {
+			view.setEphemeralState({ line: entry.line - 1 });
+			return;
+		}
+		const range = { from: view.editor.offsetToPos(entry.from), to: view.editor.offsetToPos(entry.to) };
+		view.editor.setSelection(range.from, range.to);
+		view.editor.scrollIntoView(range, true);
+	}
+
+	private get migrationManifestPath(): string {
+		return normalizePath(`${this.manifest.dir}/migration-backup.json`);
+	}
+
+	/** Keeps the undo manifest of the latest migration next to the plugin data. */
+	async saveMigrationManifest(manifest: MigrationManifest) {
+		await this.app.vault.adapter.write(this.migrationManifestPath, JSON.stringify(manifest));
+	}
+
+	private async undoMigration() {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.migrationManifestPath))) {
+			new Notice("No migration to undo.");
+			return;
+		}
+		const manifest = JSON.parse(await adapter.read(this.migrationManifestPath)) as MigrationManifest;
+		const { restored, conflicts } = await revertMigration(this.app.vault, manifest);
+		if (conflicts.length === 0) {
+			await adapter.remove(this.migrationManifestPath);
+			new Notice(`Restored ${restored.length} notes.`);
+		} else {
+			// Keep the manifest so the remaining notes can be restored by hand
+			new Notice(
+				`Restored ${restored.length} notes. Not restored, changed since the migration: ${conflicts.join(", ")}`,
+			);
+		}
+	}
+
+	/** Renders markdown to HTML the way reading view would. */
+	private async renderMarkdown(markdown: string, sourcePath: string): Promise<string> {
+		const el = document.createElement("div");
+		const component = new Component();
+		component.load();
+		try {
+			await MarkdownRenderer.render(this.app, markdown, el, sourcePath, component);
+		} finally {
+			component.unload();
+		}
+		return el.innerHTML;
+	}
+
+	/**
+	 * Re-renders open editors and reading views so setting changes show up
+	 * without reopening notes.
+	 */
+	refreshViews() {
+		this.app.workspace.updateOptions();
+		this.app.workspace.getLeavesOfType("markdown").forEach((leaf) => {
+			if (leaf.view instanceof MarkdownView) {
+				leaf.view.previewMode.rerender(true);
+			}
+		});
 	}
 }
@@ -0,0 +1,81 @@
+/**
+ * markdown-it plugin that renders the plugin's underline spans as `<u>`.
+ * The spans come from this repo's tokenizer rather than markdown-it's
+ * emphasis rule, so a site built with markdown-it underlines exactly the
+ * `_text_` that reading view does. Other underscores (strong `__`, and `_`
+ * the tokenizer leaves alone, e.g. inside links) fall through to markdown-it.
+ *
+ *   const md = new MarkdownIt().use(underlinePlugin);
+ */
+
+import type MarkdownIt from "markdown-it";
+import { EmphasisSpan, findSkippedInlineRanges, tokenizeEmphasis } from "./tokenizer";
+
+/** What the tokenizer made of one inline source's underscores. */
+interface InlineUnderscores {
+	spans: Map<number, EmphasisSpan>; // underline spans, keyed by the offset of their opening `_`
+	paired: Set<number>;              // offsets of every `_` the tokenizer used, strong ones included
+	skipped: Array<{ from: number; to: number }>; // code, math and links, left to markdown-it
+}
+
+function findUnderscores(src: string): InlineUnderscores {
+	const spans = new Map<number, EmphasisSpan>();
+	const paired = new Set<number>();
+	for (const span of tokenizeEmphasis(src)) {
+		if (span.delimiter !== "_") continue;
+		if (!span.strong) spans.set(span.from, span);
+		const length = span.strong ? 2 : 1;
+		for (let i = 0; i < length; i++) {
+			paired.add(span.from + i);
+			paired.add(span.to - 1 - i);
+		}
+	}
+	return { spans, paired, skipped: findSkippedInlineRanges(src) };
+}
+
+export function underlinePlugin(md: MarkdownIt): void {
+	// One tokenizer pass per inline block; nested tokenizing reuses the state
+	const cache = new WeakMap<MarkdownIt.StateInline, InlineUnderscores>();
+
+	md.inline.ruler.before("emphasis", "underline", (state, silent) => {
+		const start = state.pos;
+		if (state.src[start] !== "_") return false;
+
+		let underscores = cache.get(state);
+		if (!underscores) {
+			underscores = findUnderscores(state.src);
+			cache.set(state, underscores);
+		}
+		const { spans, paired, skipped } = underscores;
+
+		const span = spans.get(start);
+		if (!span || span.to > state.posMax) {
+			// Underscores the tokenizer left unpaired are literal, whether a
+			// span opens further into the run (`__a_`) or none does
+			// (`_b__*ab_`): markdown-it must not pair them either
+			if (skipped.some((r) => r.from <= start && start < r.to)) return false;
+			let end = start;
+			while (end < state.posMax && state.src[end] === "_" && !paired.has(end)) end++;
+			if (end === start) return false;
+			if (!silent) state.push("text", "", 0).content = state.src.slice(start, end);
+			state.pos = end;
+			return true;
+		}
+
+		if (!silent) {
+			const open = state.push("u_open", "u", 1);
+			open.markup = "_";
+			open.meta = { from: span.from, to: span.to };
+
+			const posMax = state.posMax;
+			state.pos = span.from + 1;
+			state.posMax = span.to - 1;
+			state.md.inline.tokenize(state);
+			state.posMax = posMax;
+
+			state.push("u_close", "u", -1).markup = "_";
+		}
+		state.pos = span.to;
+		return true;
+	});
+}
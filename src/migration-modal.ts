@@ -0,0 +1,165 @@
+import { App, Modal, Notice, Setting, TFolder } from "obsidian";
+import type UnderlinePlugin from "./main";
+import {
+	FilePlan,
+	FileReport,
+	MigrationSpan,
+	runMigration,
+	scanVault,
+} from "./migration";
+
+/**
+ * Dry-run preview for the vault migration: choose a folder, scan, untick
+ * the spans to keep, then migrate and show the per-file report.
+ */
+export class MigrationModal extends Modal {
+	plugin: UnderlinePlugin;
+	private folder: string;
+	private convertHtml = false;
+	private plans: FilePlan[] = [];
+	// Spans the user unticked in the preview
+	private excluded = new Set<MigrationSpan>();
+
+	constructor(app: App, plugin: UnderlinePlugin, folder = "") {
+		super(app);
+		this.plugin = plugin;
+		this.folder = folder;
+	}
+
+	onOpen(): void {
+		this.setTitle("Migrate underscore italics");
+		this.renderOptions();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderOptions(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("p", {
+			text:
+				"With this plugin, _text_ is an underline. Notes written earlier may use it for italics; " +
+				"this rewrites those spans as *text*. Nothing changes until you confirm.",
+		});
+
+		const folders: Record<string, string> = { "": "Entire vault" };
+		for (const file of this.app.vault.getAllLoadedFiles()) {
+			if (file instanceof TFolder && !file.isRoot()) folders[file.path] = file.path;
+		}
+		new Setting(contentEl)
+			.setName("Folder")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(folders)
+					.setValue(this.folder)
+					.onChange((value) => {
+						this.folder = value;
+					}),
+			);
+
+		new Setting(contentEl)
+			.setName("Convert <u> tags")
+			.setDesc("Also rewrite <u>text</u> HTML as _text_.")
+			.addToggle((toggle) =>
+				toggle.setValue(this.convertHtml).onChange((value) => {
+					this.convertHtml = value;
+				}),
+			);
+
+		new Setting(contentEl).addButton((button) =>
+			button
+				.setButtonText("Scan")
+				.setCta()
+				.onClick(async () => {
+					button.setDisabled(true);
+					this.plans = await scanVault(this.app.vault, this.folder, {
+						convertHtml: this.convertHtml,
+					});
+					this.excluded.clear();
+					this.renderPreview();
+				}),
+		);
+	}
+
+	private renderPreview(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		if (this.plans.length === 0) {
+			contentEl.createEl("p", { text: "Nothing to migrate." });
+			new Setting(contentEl).addButton((button) =>
+				button.setButtonText("Back").onClick(() => this.renderOptions()),
+			);
+			return;
+		}
+
+		const total = this.plans.reduce((sum, plan) => sum + plan.spans.length, 0);
+		contentEl.createEl("p", {
+			text: `${total} spans in ${this.plans.length} notes. Untick any span that should stay as it is.`,
+		});
+
+		const list = contentEl.createDiv({ cls: "underscore-migration-list" });
+		for (const plan of this.plans) {
+			const fileEl = list.createDiv({ cls: "underscore-migration-file" });
+			fileEl.createEl("strong", { text: plan.file.path });
+			for (const span of plan.spans) {
+				const row = fileEl.createEl("label", { cls: "underscore-migration-span" });
+				const checkbox = row.createEl("input", { type: "checkbox" });
+				checkbox.checked = !this.excluded.has(span);
+				checkbox.addEventListener("change", () => {
+					if (checkbox.checked) this.excluded.delete(span);
+					else this.excluded.add(span);
+				});
+				row.createSpan({ text: ` Line ${span.line}: ` });
+				row.createEl("code", { text: span.original });
+				row.createSpan({ text: " → " });
+				row.createEl("code", { text: span.replacement });
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Back").onClick(() => this.renderOptions()),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Migrate")
+					.setCta()
+					.onClick(async () => {
+						button.setDisabled(true);
+						await this.migrate();
+					}),
+			);
+	}
+
+	private async migrate(): Promise<void> {
+		const selected = this.plans.map((plan) => ({
+			file: plan.file,
+			spans: plan.spans.filter((span) => !this.excluded.has(span)),
+		}));
+		const { reports, manifest } = await runMigration(this.app.vault, selected);
+		if (manifest.files.length > 0) {
+			await this.plugin.saveMigrationManifest(manifest);
+		}
+		this.renderReport(reports);
+		new Notice(`Migrated ${manifest.files.length} notes.`);
+	}
+
+	private renderReport(reports: FileReport[]): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		const list = contentEl.createEl("ul");
+		for (const report of reports) {
+			const skipped = report.skipped > 0 ? `, ${report.skipped} skipped (note changed since the scan)` : "";
+			list.createEl("li", { text: `${report.path}: ${report.converted} converted${skipped}` });
+		}
+		contentEl.createEl("p", {
+			text: "Run \"Undo last italics migration\" to restore these notes.",
+		});
+		new Setting(contentEl).addButton((button) =>
+			button.setButtonText("Close").onClick(() => this.close()),
+		);
+	}
+}
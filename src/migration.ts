@@ -0,0 +1,302 @@
+import type { TFile, Vault } from "obsidian";
+import {
+	findSkippedBlocks,
+	findUnderlineSpans,
+	maskSkippedBlocks,
+	splitParagraphs,
+	tokenizeEmphasis,
+} from "./tokenizer";
+
+/**
+ * Vault migration for notes written before the plugin was installed, where
+ * `_text_` meant italics. Finds the spans with the same rules as the editor
+ * and reading mode, rewrites the selected ones and keeps a manifest so the
+ * whole run can be undone.
+ */
+
+export type MigrationKind = "italic" | "html";
+
+/** A replacement of a few characters in the file as scanned. */
+export interface Edit {
+	from: number;
+	to: number;
+	text: string;
+}
+
+/** One span the migration can rewrite. */
+export interface MigrationSpan {
+	kind: MigrationKind;   // "italic": _x_ → *x*; "html": <u>x</u> → _x_
+	from: number;
+	to: number;
+	original: string;      // source text of the span, checked again before rewriting
+	replacement: string;
+	line: number;          // 1-based, for the preview
+	edits: Edit[];         // delimiter-only, so nested spans can be rewritten together
+}
+
+export interface MigrationOptions {
+	convertHtml: boolean;  // also turn <u>...</u> into _..._
+	include?: (from: number, to: number) => boolean; // only spans it accepts are checked and listed
+}
+
+/** The spans of one file chosen in the preview. */
+export interface FilePlan {
+	file: TFile;
+	spans: MigrationSpan[];
+}
+
+export interface FileReport {
+	path: string;
+	converted: number;
+	skipped: number;       // spans whose text changed between the preview and the rewrite
+}
+
+/** Everything needed to revert a migration run. */
+export interface MigrationManifest {
+	createdAt: string;
+	files: Array<{ path: string; before: string; after: string }>;
+}
+
+// <u>...</u> without another <u> inside; attributes are left to the user
+const HTML_UNDERLINE_RE = /<u>((?:(?!<\/?u>)[\s\S])*?)<\/u>/gi;
+
+function findLineStarts(text: string): number[] {
+	const starts = [0];
+	for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) starts.push(i + 1);
+	return starts;
+}
+
+/** The 1-based line of `offset`, by binary search over the line starts. */
+function lineNumberAt(lineStarts: number[], offset: number): number {
+	let lo = 0;
+	let hi = lineStarts.length - 1;
+	while (lo < hi) {
+		const mid = Math.ceil((lo + hi) / 2);
+		if (lineStarts[mid] <= offset) lo = mid;
+		else hi = mid - 1;
+	}
+	return lo + 1;
+}
+
+function applyEdits(text: string, edits: Edit[]): string {
+	let result = text;
+	// Back to front so earlier offsets stay valid
+	for (const edit of [...edits].sort((a, b) => b.from - a.from)) {
+		result = result.slice(0, edit.from) + edit.text + result.slice(edit.to);
+	}
+	return result;
+}
+
+/** A note prepared for checking many rewrites one paragraph at a time. */
+export interface RewriteContext {
+	paragraphs: Array<{ from: number; text: string }>; // splitParagraphs of the masked note
+	skipped: Array<{ from: number; to: number }>;      // frontmatter, code and math blocks
+}
+
+/** Splits a note once for `convertsCleanly`. */
+export function createRewriteContext(markdown: string): RewriteContext {
+	return {
+		paragraphs: splitParagraphs(maskSkippedBlocks(markdown)),
+		skipped: findSkippedBlocks(markdown),
+	};
+}
+
+/**
+ * Rewrites one span's delimiters and checks that the tokenizer sees the
+ * intended emphasis at the same place afterwards — `*_a_*` would otherwise
+ * become `**a**` and `a<u>b</u>` would become the intraword `a_b_`. Emphasis
+ * never crosses a paragraph, so only the span's own paragraph is
+ * re-tokenized; pass a shared `context` when checking many spans of a note.
+ */
+export function convertsCleanly(
+	markdown: string,
+	edits: Edit[],
+	delimiter: "_" | "*",
+	context = createRewriteContext(markdown),
+): boolean {
+	const [open, close] = edits;
+	// Marks written into a code or math block stay literal
+	if (context.skipped.some((b) => b.from < close.to && open.from < b.to)) return false;
+
+	// The last paragraph starting at or before the span
+	const { paragraphs } = context;
+	let lo = 0;
+	let hi = paragraphs.length - 1;
+	while (lo < hi) {
+		const mid = Math.ceil((lo + hi) / 2);
+		if (paragraphs[mid].from <= open.from) lo = mid;
+		else hi = mid - 1;
+	}
+	const paragraph = paragraphs[lo];
+	if (!paragraph || paragraph.from > open.from || close.to > paragraph.from + paragraph.text.length) return false;
+
+	const local = edits.map((e) => ({ ...e, from: e.from - paragraph.from, to: e.to - paragraph.from }));
+	const rewritten = applyEdits(paragraph.text, local);
+	const from = local[0].from;
+	// The closing edit shifts by however much the opening one grew or shrank
+	const to = local[1].from + open.text.length - (open.to - open.from) + close.text.length;
+	return tokenizeEmphasis(rewritten).some(
+		(span) => span.from === from && span.to === to && span.delimiter === delimiter && !span.strong,
+	);
+}
+
+function makeSpan(
+	markdown: string,
+	lineStarts: number[],
+	kind: MigrationKind,
+	from: number,
+	to: number,
+	edits: Edit[],
+): MigrationSpan {
+	const original = markdown.slice(from, to);
+	return {
+		kind,
+		from,
+		to,
+		original,
+		replacement: applyEdits(original, edits.map((e) => ({ ...e, from: e.from - from, to: e.to - from }))),
+		line: lineNumberAt(lineStarts, from),
+		edits,
+	};
+}
+
+/**
+ * Lists every span the migration would rewrite in one note, in document
+ * order. Underscore italics become `*x*`, or `<em>x</em>` where an asterisk
+ * would merge with neighbouring emphasis. `<u>` spans that can't be written
+ * as `_x_` (intraword, in code, touching another underscore) are not listed.
+ */
+export function findMigrationSpans(markdown: string, options: MigrationOptions): MigrationSpan[] {
+	const spans: MigrationSpan[] = [];
+	const context = createRewriteContext(markdown);
+	const lineStarts = findLineStarts(markdown);
+
+	const included = (from: number, to: number) => options.include?.(from, to) ?? true;
+
+	for (const { from, to } of findUnderlineSpans(markdown)) {
+		if (!included(from, to)) continue;
+		const asterisks: Edit[] = [
+			{ from, to: from + 1, text: "*" },
+			{ from: to - 1, to, text: "*" },
+		];
+		const edits = convertsCleanly(markdown, asterisks, "*", context)
+			? asterisks
+			: [
+				{ from, to: from + 1, text: "<em>" },
+				{ from: to - 1, to, text: "</em>" },
+			];
+		spans.push(makeSpan(markdown, lineStarts, "italic", from, to, edits));
+	}
+
+	if (options.convertHtml) {
+		for (const match of markdown.matchAll(HTML_UNDERLINE_RE)) {
+			const from = match.index ?? 0;
+			const to = from + match[0].length;
+			if (!included(from, to)) continue;
+			const edits: Edit[] = [
+				{ from, to: from + 3, text: "_" },
+				{ from: to - 4, to, text: "_" },
+			];
+			if (convertsCleanly(markdown, edits, "_", context)) {
+				spans.push(makeSpan(markdown, lineStarts, "html", from, to, edits));
+			}
+		}
+	}
+
+	return spans.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Applies the given spans to the current file text. A span whose source text
+ * no longer matches (the note was edited after the preview) is skipped.
+ */
+export function applyMigrationSpans(
+	markdown: string,
+	spans: MigrationSpan[],
+): { content: string; converted: number; skipped: number } {
+	const valid = spans.filter((span) => markdown.slice(span.from, span.to) === span.original);
+	return {
+		content: applyEdits(markdown, valid.flatMap((span) => span.edits)),
+		converted: valid.length,
+		skipped: spans.length - valid.length,
+	};
+}
+
+/** True when `path` is `folder` itself or inside it; "" and "/" mean the whole vault. */
+export function isInFolder(path: string, folder: string): boolean {
+	if (folder === "" || folder === "/") return true;
+	return path.startsWith(folder.replace(/\/$/, "") + "/");
+}
+
+/** Scans the Markdown notes in `folder` and returns the files with something to migrate. */
+export async function scanVault(
+	vault: Vault,
+	folder: string,
+	options: MigrationOptions,
+): Promise<FilePlan[]> {
+	const plans: FilePlan[] = [];
+	const files = vault
+		.getMarkdownFiles()
+		.filter((file) => isInFolder(file.path, folder))
+		.sort((a, b) => a.path.localeCompare(b.path));
+	for (const file of files) {
+		const spans = findMigrationSpans(await vault.cachedRead(file), options);
+		if (spans.length > 0) plans.push({ file, spans });
+	}
+	return plans;
+}
+
+/**
+ * Rewrites the planned spans with `vault.process`, so each note is read and
+ * written atomically. Returns a per-file report and the undo manifest.
+ */
+export async function runMigration(
+	vault: Vault,
+	plans: FilePlan[],
+): Promise<{ reports: FileReport[]; manifest: MigrationManifest }> {
+	const reports: FileReport[] = [];
+	const manifest: MigrationManifest = { createdAt: new Date().toISOString(), files: [] };
+
+	for (const { file, spans } of plans) {
+		if (spans.length === 0) continue;
+		let report: FileReport = { path: file.path, converted: 0, skipped: spans.length };
+		await vault.process(file, (data) => {
+			const result = applyMigrationSpans(data, spans);
+			report = { path: file.path, converted: result.converted, skipped: result.skipped };
+			if (result.content !== data) {
+				manifest.files.push({ path: file.path, before: data, after: result.content });
+			}
+			return result.content;
+		});
+		reports.push(report);
+	}
+	return { reports, manifest };
+}
+
+/**
+ * Restores every note in the manifest to its pre-migration text. Notes that
+ * were edited or removed since the migration are left alone and reported.
+ */
+export async function revertMigration(
+	vault: Vault,
+	manifest: MigrationManifest,
+): Promise<{ restored: string[]; conflicts: string[] }> {
+	const restored: string[] = [];
+	const conflicts: string[] = [];
+	for (const entry of manifest.files) {
+		const file = vault.getFileByPath(entry.path);
+		if (!file) {
+			conflicts.push(entry.path);
+			continue;
+		}
+		await vault.process(file, (data) => {
+			if (data !== entry.after) {
+				conflicts.push(entry.path);
+				return data;
+			}
+			restored.push(entry.path);
+			return entry.before;
+		});
+	}
+	return { restored, conflicts };
+}
@@ -0,0 +1,126 @@
+import type { Editor } from "obsidian";
+import { UNDERSCORE_SYNTAX, UnderlineSyntax, delimiterRunChar } from "./syntax";
+
+/** Converts clipboard HTML to markdown (Obsidian's htmlToMarkdown inside the app). */
+export type HtmlToMarkdown = (html: string) => string;
+
+// Private-use characters bracket underlined content while the rest of the
+// HTML goes through the normal HTML-to-Markdown conversion untouched.
+const OPEN_MARKER = "\uE000";
+const CLOSE_MARKER = "\uE001";
+const MARKED_SPAN_RE = /\uE000([\s\S]*?)\uE001/g;
+const STRAY_MARKER_RE = /[\uE000\uE001]/g;
+
+/** <u>, <ins>, or any element styled with text-decoration: underline. */
+function isUnderlineElement(el: Element): boolean {
+	if (el.tagName === "U" || el.tagName === "INS") return true;
+	// Matches both text-decoration and text-decoration-line declarations
+	return /text-decoration[^;]*underline/i.test(el.getAttribute("style") ?? "");
+}
+
+/**
+ * Underlining that only shows a link: Google Docs and Word style every
+ * hyperlink as underlined, on the <a> itself, inside it, or on an element
+ * wrapping nothing but the link.
+ */
+function isLinkUnderline(el: Element): boolean {
+	if (el.closest("a")) return true;
+	const link = el.querySelector("a");
+	return link !== null && (link.textContent ?? "").trim() === (el.textContent ?? "").trim();
+}
+
+const isUnwrappedTag = (el: Element) => el.tagName === "U" || el.tagName === "INS";
+
+/**
+ * Brackets the content of every outermost underline element in `root` with
+ * marker characters and unwraps <u>/<ins> so the converter doesn't keep them
+ * as raw HTML. Underlines that only style a link are unwrapped without
+ * marks. Returns the number of underline elements found.
+ */
+export function markUnderlines(root: HTMLElement): number {
+	const outermost: Element[] = [];
+	const linkStyling: Element[] = [];
+	const counts = (el: Element) => isUnderlineElement(el) && !isLinkUnderline(el);
+	root.querySelectorAll("*").forEach((el) => {
+		if (isUnderlineElement(el) && isLinkUnderline(el)) linkStyling.push(el);
+		if (!counts(el)) return;
+		for (let p = el.parentElement; p && p !== root; p = p.parentElement) {
+			if (counts(p)) return;
+		}
+		outermost.push(el);
+	});
+
+	for (const el of linkStyling) {
+		if (isUnwrappedTag(el)) el.replaceWith(...Array.from(el.childNodes));
+	}
+	for (const el of outermost) {
+		el.prepend(OPEN_MARKER);
+		el.append(CLOSE_MARKER);
+		if (isUnwrappedTag(el)) {
+			el.replaceWith(...Array.from(el.childNodes));
+		}
+	}
+	return outermost.length;
+}
+
+/**
+ * Turns marked spans in converted markdown into `_..._` (or the given
+ * syntax's marks), with the same boundary and `__` guards as
+ * getUnderlineState: whitespace moves outside the marks, and a span is left
+ * unmarked when it is empty, crosses a paragraph break, or would touch
+ * another mark character and form a longer run (`__`, `+++`).
+ */
+export function applyUnderlineMarkers(markdown: string, syntax: UnderlineSyntax = UNDERSCORE_SYNTAX): string {
+	const run = delimiterRunChar(syntax);
+	return markdown
+		.replace(MARKED_SPAN_RE, (match: string, inner: string, offset: number, full: string) => {
+			const content = inner.replace(STRAY_MARKER_RE, "");
+			const core = content.trim();
+			const leading = content.slice(0, content.length - content.trimStart().length);
+			const trailing = content.slice(content.trimEnd().length);
+			const before = full[offset - 1];
+			const after = full[offset + match.length];
+
+			if (
+				core === "" ||
+				/\n\s*\n/.test(core) ||
+				(run !== null &&
+					(core.startsWith(run) ||
+						core.endsWith(run) ||
+						(leading === "" && before === run) ||
+						(trailing === "" && after === run)))
+			) {
+				return content;
+			}
+			return `${leading}${syntax.open}${core}${syntax.close}${trailing}`;
+		})
+		.replace(STRAY_MARKER_RE, "");
+}
+
+/**
+ * `editor-paste` handler. When the clipboard HTML contains underlines, converts
+ * it with the default HTML-to-Markdown conversion plus underline marks for
+ * the underlined spans and inserts the result. The marks are `_..._` where
+ * `_` underlines in the note, otherwise the first of the note's `syntaxes`.
+ * Returns false (leaving the paste to Obsidian) when there is no HTML, no
+ * underline, no underline syntax in the note, or another handler already
+ * took the event.
+ */
+export function handleUnderlinePaste(
+	evt: ClipboardEvent,
+	editor: Editor,
+	toMarkdown: HtmlToMarkdown,
+	syntaxes: UnderlineSyntax[],
+): boolean {
+	const syntax = syntaxes.find((s) => s.id === "underscore") ?? syntaxes[0];
+	if (evt.defaultPrevented || !evt.clipboardData || !syntax) return false;
+	const html = evt.clipboardData.getData("text/html");
+	if (!html) return false;
+
+	const doc = new DOMParser().parseFromString(html, "text/html");
+	if (markUnderlines(doc.body) === 0) return false;
+
+	evt.preventDefault();
+	editor.replaceSelection(applyUnderlineMarkers(toMarkdown(doc.body.innerHTML), syntax));
+	return true;
+}
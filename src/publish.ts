@@ -0,0 +1,197 @@
+/**
+ * Renders notes to standalone HTML outside Obsidian, for publishing part of
+ * a vault as a static site. Underline spans are found with the plugin's own
+ * tokenizer, so the same `_text_` becomes `<u>` as in reading view, and
+ * wikilinks become relative links between the generated pages.
+ */
+
+import MarkdownIt from "markdown-it";
+import { posix } from "path";
+import { findSkippedBlocks, findSkippedInlineRanges, findUnderlineSpans } from "./tokenizer";
+
+export interface PublishOptions {
+	/** Class for the generated `<u>` elements; none when empty. */
+	className: string;
+}
+
+export const DEFAULT_PUBLISH_OPTIONS: PublishOptions = {
+	className: "",
+};
+
+/** A text replacement at document offsets [from, to). */
+interface Edit {
+	from: number;
+	to: number;
+	text: string;
+}
+
+const FRONTMATTER_RE = /^---\n[\s\S]*?\n---(?:\n|$)/;
+const WIKILINK_RE = /(!?)\[\[([^\]\n]+?)\]\]/g;
+const IMAGE_EXTENSION_RE = /\.(?:png|jpe?g|gif|svg|webp|bmp|avif)$/i;
+
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+/**
+ * The id a heading gets, and the fragment a `[[note#Heading]]` link points
+ * at. HTML tags and formatting characters are dropped, so `## _Title_` and
+ * `[[note#Title]]` agree.
+ */
+export function slugify(heading: string): string {
+	return heading
+		.replace(/<[^>]*>/g, "")
+		.trim()
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}\s-]/gu, "")
+		.replace(/\s+/g, "-");
+}
+
+/** The output path of a vault file: notes become .html pages, attachments keep their name. */
+export function outputPath(path: string): string {
+	return path.replace(/\.md$/i, ".html");
+}
+
+/**
+ * Resolves wikilink targets to vault paths the way Obsidian does: an exact
+ * path first, then by file name anywhere in the folder, preferring the
+ * shortest path. Link paths without an extension point at notes.
+ */
+export class NoteIndex {
+	private byPath = new Map<string, string>();
+	private byName = new Map<string, string[]>();
+
+	constructor(paths: string[]) {
+		for (const path of [...paths].sort((a, b) => a.length - b.length || a.localeCompare(b))) {
+			this.byPath.set(path.toLowerCase(), path);
+			const name = posix.basename(path).toLowerCase();
+			this.byName.set(name, [...(this.byName.get(name) ?? []), path]);
+		}
+	}
+
+	resolve(linkpath: string): string | null {
+		const target = posix.extname(linkpath) ? linkpath : `${linkpath}.md`;
+		const key = target.toLowerCase();
+		return this.byPath.get(key) ?? this.byName.get(posix.basename(key))?.[0] ?? null;
+	}
+}
+
+/** A link from one generated page to another file, relative and URL-encoded. */
+function relativeHref(fromPath: string, toPath: string): string {
+	const relative = posix.relative(posix.dirname(outputPath(fromPath)), outputPath(toPath));
+	return relative.split("/").map(encodeURIComponent).join("/");
+}
+
+/** Ranges where `[[` is literal text: code and math, inline or as blocks. */
+function findLiteralRanges(markdown: string): Array<{ from: number; to: number }> {
+	const inline = findSkippedInlineRanges(markdown).filter((r) => /^[`$]/.test(markdown[r.from]));
+	return [...findSkippedBlocks(markdown), ...inline];
+}
+
+/** The HTML for one wikilink or embed. */
+function renderWikilink(embed: boolean, inner: string, fromPath: string, index: NoteIndex): string {
+	// In a table the alias pipe is escaped: [[note\|alias]]
+	const [target, alias] = inner.replace(/\\\|/g, "|").split(/\|(.*)/s);
+	const hash = target.indexOf("#");
+	const linkpath = hash === -1 ? target : target.slice(0, hash);
+	const subpath = hash === -1 ? "" : target.slice(hash + 1);
+	const display = alias ?? (linkpath && subpath ? `${linkpath} > ${subpath}` : linkpath || subpath);
+
+	const resolved = linkpath ? index.resolve(linkpath) : fromPath;
+	if (!resolved) {
+		return `<span class="internal-link is-unresolved">${escapeHtml(display)}</span>`;
+	}
+	// Block references keep their id; nested heading paths point at the last heading
+	const heading = subpath.split("#").pop() ?? "";
+	const fragment = subpath ? `#${subpath.startsWith("^") ? subpath : slugify(heading)}` : "";
+	const href = escapeHtml((linkpath ? relativeHref(fromPath, resolved) : "") + fragment);
+	if (embed && IMAGE_EXTENSION_RE.test(resolved)) {
+		return `<img src="${href}" alt="${escapeHtml(alias ?? posix.basename(resolved))}">`;
+	}
+	return `<a href="${href}" class="internal-link">${escapeHtml(display)}</a>`;
+}
+
+/**
+ * Rewrites a note's markdown so a standard renderer produces what reading
+ * view shows: frontmatter is dropped, `_text_` underline spans become
+ * `<u>` tags (their content stays markdown) and wikilinks become HTML links.
+ * Code, math and links are left alone, with the plugin's skip rules.
+ */
+export function prepareMarkdown(
+	markdown: string,
+	fromPath: string,
+	index: NoteIndex,
+	options: PublishOptions = DEFAULT_PUBLISH_OPTIONS,
+): string {
+	const body = markdown.replace(/\r\n/g, "\n").replace(FRONTMATTER_RE, "");
+	const open = options.className ? `<u class="${escapeHtml(options.className)}">` : "<u>";
+	const edits: Edit[] = [];
+
+	for (const span of findUnderlineSpans(body)) {
+		edits.push({ from: span.from, to: span.from + 1, text: open });
+		edits.push({ from: span.to - 1, to: span.to, text: "</u>" });
+	}
+
+	const literal = findLiteralRanges(body);
+	for (const match of body.matchAll(WIKILINK_RE)) {
+		const from = match.index ?? 0;
+		const to = from + match[0].length;
+		if (literal.some((r) => r.from < to && from < r.to)) continue;
+		edits.push({ from, to, text: renderWikilink(match[1] === "!", match[2], fromPath, index) });
+	}
+
+	let result = body;
+	for (const edit of edits.sort((a, b) => b.from - a.from)) {
+		result = result.slice(0, edit.from) + edit.text + result.slice(edit.to);
+	}
+	return result;
+}
+
+/** markdown-it plugin giving each heading the id that wikilinks point at. */
+function headingIds(md: MarkdownIt): void {
+	md.core.ruler.push("underscore_heading_ids", (state) => {
+		const used = new Map<string, number>();
+		state.tokens.forEach((token, i) => {
+			if (token.type !== "heading_open") return;
+			const slug = slugify(state.tokens[i + 1]?.content ?? "");
+			const count = used.get(slug) ?? 0;
+			used.set(slug, count + 1);
+			token.attrSet("id", count === 0 ? slug : `${slug}-${count}`);
+		});
+	});
+}
+
+function createRenderer(): MarkdownIt {
+	return new MarkdownIt({ html: true, linkify: true, breaks: true }).use(headingIds);
+}
+
+/** Renders one note to the HTML of its page body. */
+export function renderNote(
+	markdown: string,
+	fromPath: string,
+	index: NoteIndex,
+	options: PublishOptions = DEFAULT_PUBLISH_OPTIONS,
+): string {
+	return createRenderer().render(prepareMarkdown(markdown, fromPath, index, options));
+}
+
+/** Wraps a rendered note in a complete HTML page. */
+export function renderPage(title: string, body: string): string {
+	return [
+		"<!DOCTYPE html>",
+		"<html>",
+		"<head>",
+		'<meta charset="utf-8">',
+		`<title>${escapeHtml(title)}</title>`,
+		"</head>",
+		"<body>",
+		body.trimEnd(),
+		"</body>",
+		"</html>",
+		"",
+	].join("\n");
+}
@@ -1,79 +1,338 @@
 import { MarkdownPostProcessorContext } from "obsidian";
+import type { RenderProfile } from "./settings";
+import { UNDERSCORE_SYNTAX, UnderlineSyntax } from "./syntax";
+import {
+	maskSkippedBlocks,
+	splitParagraphs,
+	tokenizeDelimited,
+	tokenizeEmphasis,
+} from "./tokenizer";
 
-const UNDERSCORE_REGEX = /_([^_\n]+?)_/g;
+/** A single-delimiter emphasis span found in the section source. */
+interface SourceEmphasis {
+	from: number;          // offset of the opening delimiter within the section
+	delimiter: "_" | "*";
+	text: string;          // normalized inner text
+}
 
 /**
- * Strip inline markdown markers and trim whitespace so that
+ * Strip inline markdown markers and link syntax and trim whitespace so that
  * "_**bold italic**_" → "bold italic" can match em.textContent "bold italic".
+ * Underscores are stripped as well so nested "*a _b_ c*" matches "a b c";
+ * collisions are harmless because spans are matched in source order.
  */
 function normalizeText(text: string): string {
 	return text
+		.replace(/\\([!-/:-@[-`{-~])/g, "$1") // backslash escapes
+		.replace(/\[\[(?:[^\]|]*\|)?([^\]]*)\]\]/g, "$1") // [[target|alias]] → alias
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1") // [text](url) → text
 		.replace(/\*\*|__|~~|`/g, "")
-		.replace(/\*/g, "")
+		.replace(/[*_]/g, "")
+		.replace(/\s+/g, " ") // soft line breaks render as spaces
 		.trim();
 }
 
 /**
- * Collect the set of normalized underscore-italic texts from the source lines
- * of the given block element.
+ * Collect every single-delimiter emphasis span in the source lines of the
+ * given block element, ordered by position, using the shared tokenizer. Obsidian renders emphasis as
+ * <em> in the same pre-order, so the n-th span corresponds to the n-th <em>.
  */
-function getUnderscoreTexts(
+function getSourceEmphasis(
 	block: HTMLElement,
 	ctx: MarkdownPostProcessorContext,
-): Set<string> | null {
+): SourceEmphasis[] | null {
 	const sectionInfo = ctx.getSectionInfo(block);
 	if (!sectionInfo) {
 		return null;
 	}
 
 	const { text, lineStart, lineEnd } = sectionInfo;
-	let blockLines = text
-		.split("\n")
-		.slice(lineStart, lineEnd + 1)
-		.join("\n");
-
-	// Strip out code blocks and math blocks to prevent their internal underscores
-	// from breaking the regex pairing for surrounding text.
-	blockLines = blockLines
-		.replace(/```[\s\S]*?```/g, (m) => m.replace(/_/g, "\0"))
-		.replace(/`[^`]*?`/g, (m) => m.replace(/_/g, "\0"))
-		.replace(/\$\$[\s\S]*?\$\$/g, (m) => m.replace(/_/g, "\0"))
-		.replace(/\$[^$\n]*?\$/g, (m) => m.replace(/_/g, "\0"))
-		.replace(/\[\[[\s\S]*?\]\]/g, (m) => m.replace(/_/g, "\0")) // internal links
-		.replace(/\[[\s\S]*?\]\([\s\S]*?\)/g, (m) => m.replace(/_/g, "\0")) // external links
-		.replace(/https?:\/\/[^\s]+/g, (m) => m.replace(/_/g, "\0")); // bare URLs
-
-	const underscoreTexts = new Set<string>();
-	let match: RegExpExecArray | null;
-	UNDERSCORE_REGEX.lastIndex = 0;
-	while ((match = UNDERSCORE_REGEX.exec(blockLines)) !== null) {
-		const innerText = match[1].replace(/\0/g, "_");
-		underscoreTexts.add(normalizeText(innerText));
+	return findSourceEmphasis(
+		text
+			.split("\n")
+			.slice(lineStart, lineEnd + 1)
+			.join("\n"),
+	);
+}
+
+/** The single-delimiter emphasis spans of a piece of markdown source, in order. */
+function findSourceEmphasis(blockLines: string): SourceEmphasis[] {
+	// Mask fenced code and math blocks; inline code, math and links are
+	// handled by the tokenizer itself. Masking keeps offsets, so span text
+	// is read back from the unmasked source.
+	const spans: SourceEmphasis[] = [];
+	for (const paragraph of splitParagraphs(maskSkippedBlocks(blockLines))) {
+		for (const span of tokenizeEmphasis(paragraph.text)) {
+			if (span.strong) continue;
+			const from = paragraph.from + span.from;
+			const to = paragraph.from + span.to;
+			spans.push({
+				from,
+				delimiter: span.delimiter,
+				text: normalizeText(blockLines.slice(from + 1, to - 1)),
+			});
+		}
 	}
+	// <em>s come in document pre-order: outer spans before the ones they contain
+	return spans.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Pairs each <em> with a source span. Obsidian renders single-delimiter
+ * emphasis as <em> in source order, so when the counts agree the n-th <em>
+ * is the n-th span — whatever its content renders to (highlights, entities,
+ * math, inline HTML). When they don't (raw <em> HTML, a span the renderer
+ * read differently), each <em> takes the next unused span whose text
+ * matches, so repeated spans still resolve by position.
+ */
+function matchEmphasis(
+	ems: HTMLElement[],
+	spans: SourceEmphasis[],
+): Array<SourceEmphasis | null> {
+	const consistent =
+		ems.length === spans.length &&
+		// An <em> with nothing in it can't come from a span with text, and vice versa
+		ems.every((em, i) => hasRenderedContent(em) === (spans[i].text !== ""));
+	return consistent ? spans.slice() : matchEmphasisByText(ems, spans);
+}
 
-	return underscoreTexts;
+function hasRenderedContent(em: HTMLElement): boolean {
+	return (em.textContent ?? "").trim() !== "" || em.childElementCount > 0;
 }
 
+function matchEmphasisByText(
+	ems: HTMLElement[],
+	spans: SourceEmphasis[],
+): Array<SourceEmphasis | null> {
+	const result: Array<SourceEmphasis | null> = [];
+	let cursor = 0;
+	for (const em of ems) {
+		const normalized = normalizeText(em.textContent ?? "");
+		let found = -1;
+		for (let i = cursor; i < spans.length; i++) {
+			if (spans[i].text === normalized) {
+				found = i;
+				break;
+			}
+		}
+		if (found === -1) {
+			result.push(null);
+			continue;
+		}
+		result.push(spans[found]);
+		cursor = found + 1;
+	}
+	return result;
+}
+
+// List markers, task boxes and heading marks, which render without their text
+const BLOCK_MARKER_RE = /^[ \t]*(?:(?:[-*+]|\d+[.)])[ \t]+(?:\[.\][ \t]+)?|#{1,6}(?:[ \t]+|$))/gm;
+// Block ids and closing heading hashes, which don't render either
+const LINE_SUFFIX_RE = /(?:[ \t]+\^[\w-]+|[ \t]+#+)[ \t]*$/gm;
+
 /**
- * Post-processor entry point. Classifies <em> elements as underscore-sourced
- * by comparing normalized text content against source lines.
+ * The emphasis spans of the paragraphs `root` was rendered from, for content
+ * without section info: the longest run of consecutive paragraphs of
+ * `source` whose text the block shows, the earliest of equal runs. Null
+ * when no paragraph's text is found in the block.
  */
-export function transformElement(
+function findBlockEmphasis(root: HTMLElement, source: string): SourceEmphasis[] | null {
+	// Padded so that a paragraph only matches whole words
+	const rendered = ` ${normalizeText(root.textContent ?? "")} `;
+	const paragraphs = splitParagraphs(maskSkippedBlocks(source)).map((p) => ({
+		from: p.from,
+		to: p.from + p.text.length,
+		text: normalizeText(p.text.replace(BLOCK_MARKER_RE, "").replace(LINE_SUFFIX_RE, "")),
+	}));
+
+	let best: { from: number; to: number; length: number } | null = null;
+	for (let i = 0; i < paragraphs.length; i++) {
+		let text = "";
+		let j = i;
+		for (; j < paragraphs.length && paragraphs[j].text !== ""; j++) {
+			const next = text ? `${text} ${paragraphs[j].text}` : paragraphs[j].text;
+			if (!rendered.includes(` ${next} `)) break;
+			text = next;
+		}
+		if (j > i && (!best || text.length > best.length)) {
+			best = { from: paragraphs[i].from, to: paragraphs[j - 1].to, length: text.length };
+		}
+	}
+	return best && findSourceEmphasis(source.slice(best.from, best.to));
+}
+
+// PDF export renders the note into this container, outside any reading view
+const EXPORT_CONTAINER_SELECTOR = ".print";
+
+/** True when `el` is being rendered for PDF export or printing. */
+export function isExportRender(el: HTMLElement): boolean {
+	return el.closest(EXPORT_CONTAINER_SELECTOR) !== null;
+}
+
+// Rendered code and math keep their text as written
+const INERT_SELECTOR = "code, pre, .math, .math-block";
+
+// Stands in for a child element when tokenizing an element's text
+const ELEMENT_PLACEHOLDER = "\uFFFC";
+
+/**
+ * The <em>s that came from `_text_`. `pair` finds the source span of each
+ * <em>, or returns null when there is no source to look in.
+ */
+function findUnderscoreEmphasis(
 	root: HTMLElement,
-	ctx: MarkdownPostProcessorContext,
+	pair: (ems: HTMLElement[]) => Array<SourceEmphasis | null> | null,
+): HTMLElement[] {
+	const ems = Array.from(root.querySelectorAll<HTMLElement>("em")).filter(
+		(em) => !em.closest(INERT_SELECTOR),
+	);
+	if (ems.length === 0) {
+		return [];
+	}
+	return (pair(ems) ?? []).flatMap((span, i) => (span?.delimiter === "_" ? [ems[i]] : []));
+}
+
+/**
+ * Shows one rendered underline the way `profile` asks: `className` marks it
+ * as underlined, "dimmed" also records its marks for styles.css to draw,
+ * "italic" styles it as italics instead, and "raw" puts the marks back as
+ * text in place of the element.
+ */
+function applyProfile(
+	el: HTMLElement,
+	className: string,
+	open: string,
+	close: string,
+	profile: RenderProfile,
 ): void {
-	const underscoreTexts = getUnderscoreTexts(root, ctx);
-	if (underscoreTexts === null || underscoreTexts.size === 0) {
+	// Table widget cells are processed again when the profile changes
+	el.classList.remove("underscore-italic", "underscore-marks", className);
+	if (profile === "raw") {
+		el.replaceWith(open, ...Array.from(el.childNodes), close);
 		return;
 	}
+	if (profile === "italic") {
+		el.classList.add("underscore-italic");
+		return;
+	}
+	el.classList.add(className);
+	if (profile === "dimmed") {
+		el.classList.add("underscore-marks");
+		el.dataset.underscoreOpen = open;
+		el.dataset.underscoreClose = close;
+	}
+}
+
+/**
+ * Wraps `++text++`-style spans, which Obsidian renders as literal text, in
+ * `<span class="underscore-u">` and drops the delimiters. Each element's own
+ * text is tokenized with child elements as inert placeholders, so a span
+ * may contain formatting (`++a **b** c++`) but never crosses an element edge.
+ */
+function wrapDelimitedSpans(root: HTMLElement, syntax: UnderlineSyntax, profile: RenderProfile): void {
+	const { open, close } = syntax;
+	const parents = [root, ...Array.from(root.querySelectorAll<HTMLElement>("*"))].filter(
+		(el) => !el.closest(INERT_SELECTOR) && el.textContent?.includes(open),
+	);
 
-	root.querySelectorAll<HTMLElement>("em").forEach((em) => {
-		if (em.closest("code, pre, .math, .math-block")) {
-			return;
+	for (const parent of parents) {
+		let text = "";
+		const pieces: Array<{ node: Text; start: number }> = [];
+		for (const child of Array.from(parent.childNodes)) {
+			if (child instanceof Text) {
+				pieces.push({ node: child, start: text.length });
+				text += child.data;
+			} else {
+				text += ELEMENT_PLACEHOLDER;
+			}
 		}
-		const normalized = normalizeText(em.textContent ?? "");
-		if (underscoreTexts.has(normalized)) {
-			em.classList.add("underscore-em");
+
+		// A delimiter must sit inside one text node
+		const locate = (from: number, length: number) =>
+			pieces.find((p) => p.start <= from && from + length <= p.start + p.node.length);
+
+		// Back to front, so wrapping a span leaves earlier offsets valid
+		for (const span of tokenizeDelimited(text, open, close).reverse()) {
+			const opener = locate(span.from, open.length);
+			const closer = locate(span.to - close.length, close.length);
+			if (!opener || !closer) continue;
+
+			const closeOffset = span.to - close.length - closer.start;
+			const openOffset = span.from - opener.start;
+			closer.node.deleteData(closeOffset, close.length);
+			opener.node.deleteData(openOffset, open.length);
+
+			const range = document.createRange();
+			range.setStart(opener.node, openOffset);
+			range.setEnd(closer.node, opener === closer ? closeOffset - open.length : closeOffset);
+			const wrapper = document.createElement("span");
+			wrapper.appendChild(range.extractContents());
+			range.insertNode(wrapper);
+			applyProfile(wrapper, "underscore-u", open, close, profile);
 		}
+	}
+}
+
+/**
+ * Post-processor entry point. Marks the rendered underlines of every enabled
+ * syntax: `_text_` emphasis is classified against the section source,
+ * `<u>` elements get the shared styling, and the other delimiters are
+ * wrapped from the rendered text.
+ *
+ * Without section info (embeds, hover previews, canvas cards, other
+ * plugins' renders), `_text_` is classified against the block's own
+ * paragraphs in `source` — the note or embedded section the content came
+ * from — when the caller could find it.
+ * `profile` is the rendering profile of the view the element shows in.
+ */
+export function transformElement(
+	root: HTMLElement,
+	ctx: MarkdownPostProcessorContext,
+	syntaxes: UnderlineSyntax[] = [UNDERSCORE_SYNTAX],
+	source: string | null = null,
+	profile: RenderProfile = "hidden",
+): void {
+	transform(root, syntaxes, profile, (ems) => {
+		const spans = getSourceEmphasis(root, ctx);
+		if (spans) return matchEmphasis(ems, spans);
+		if (source === null) return null;
+		const blockSpans = findBlockEmphasis(root, source);
+		return blockSpans && matchEmphasis(ems, blockSpans);
 	});
 }
+
+/**
+ * Like transformElement for one rendered table cell whose source is known
+ * but has no section info of its own, such as a cell of a Live Preview
+ * table widget. `source` is the cell's markdown, without pipes.
+ */
+export function transformTableCell(
+	cell: HTMLElement,
+	source: string,
+	syntaxes: UnderlineSyntax[] = [UNDERSCORE_SYNTAX],
+	profile: RenderProfile = "hidden",
+): void {
+	transform(cell, syntaxes, profile, (ems) => matchEmphasis(ems, findSourceEmphasis(source)));
+}
+
+function transform(
+	root: HTMLElement,
+	syntaxes: UnderlineSyntax[],
+	profile: RenderProfile,
+	pair: (ems: HTMLElement[]) => Array<SourceEmphasis | null> | null,
+): void {
+	for (const syntax of syntaxes) {
+		if (syntax.id === "underscore") {
+			for (const em of findUnderscoreEmphasis(root, pair)) {
+				applyProfile(em, "underscore-em", "_", "_", profile);
+			}
+		} else if (syntax.id === "html") {
+			root.querySelectorAll("u").forEach((u) => {
+				if (!u.closest(INERT_SELECTOR)) applyProfile(u, "underscore-u", "<u>", "</u>", profile);
+			});
+		} else if (profile !== "raw") {
+			// Obsidian already leaves these delimiters as literal text
+			wrapDelimitedSpans(root, syntax, profile);
+		}
+	}
+}
@@ -0,0 +1,48 @@
+/**
+ * remark plugin that turns the plugin's underline spans into `underline`
+ * nodes. micromark parses `_text_` as emphasis; every emphasis node that
+ * covers one of this repo's underline spans becomes an `underline` node,
+ * which remark-rehype renders as `<u>`. Emphasis the tokenizer doesn't
+ * count as underline (`*text*`, or `_` inside links and math) is left alone.
+ *
+ *   unified().use(remarkParse).use(remarkUnderline).use(remarkRehype)
+ */
+
+import { findUnderlineSpans } from "./tokenizer";
+
+/** The parts of an mdast node this plugin reads and writes. */
+export interface MdastNode {
+	type: string;
+	children?: MdastNode[];
+	position?: {
+		start: { offset?: number };
+		end: { offset?: number };
+	};
+	data?: { hName?: string; [key: string]: unknown };
+}
+
+/**
+ * Rewrites, in place, the emphasis nodes of `tree` that are underline spans
+ * of `source`, the markdown it was parsed from. Returns the tree.
+ */
+export function underlineEmphasis<T extends MdastNode>(tree: T, source: string): T {
+	const spans = new Set(findUnderlineSpans(source).map((span) => `${span.from}:${span.to}`));
+	const visit = (node: MdastNode) => {
+		const start = node.position?.start.offset;
+		const end = node.position?.end.offset;
+		if (node.type === "emphasis" && spans.has(`${start}:${end}`)) {
+			node.type = "underline";
+			node.data = { ...node.data, hName: "u" };
+		}
+		node.children?.forEach(visit);
+	};
+	visit(tree);
+	return tree;
+}
+
+/** The remark plugin: `unified().use(remarkUnderline)`. */
+export function remarkUnderline(): (tree: MdastNode, file: { toString(): string }) => void {
+	return (tree, file) => {
+		underlineEmphasis(tree, String(file));
+	};
+}
@@ -0,0 +1,81 @@
+/**
+ * Finding the markdown behind content rendered without section info:
+ * transcluded embeds, hover previews, canvas cards and other plugins'
+ * MarkdownRenderer output. The reading-mode classifier then looks for the
+ * rendered emphasis in that source instead of in the section.
+ */
+
+import type { App, CachedMetadata } from "obsidian";
+
+/** The text of a canvas file's text cards, separated like paragraphs. */
+export function getCanvasText(json: string): string {
+	try {
+		const canvas = JSON.parse(json) as { nodes?: Array<{ type?: string; text?: unknown }> };
+		return (canvas.nodes ?? [])
+			.filter((node) => node.type === "text" && typeof node.text === "string")
+			.map((node) => node.text as string)
+			.join("\n\n");
+	} catch {
+		return "";
+	}
+}
+
+/**
+ * The offsets of an embed subpath in its note: `#Heading` (or the nested
+ * `#Parent#Heading`) runs to the next heading of the same or a higher level,
+ * `#^block` covers the block. Null when the subpath isn't found.
+ */
+export function getSubpathRange(
+	cache: CachedMetadata,
+	subpath: string,
+	length: number,
+): { from: number; to: number } | null {
+	const parts = subpath.split("#").filter((p) => p !== "");
+	const target = parts[parts.length - 1];
+	if (target === undefined) return null;
+
+	if (target.startsWith("^")) {
+		const block = cache.blocks?.[target.slice(1)];
+		return block ? { from: block.position.start.offset, to: block.position.end.offset } : null;
+	}
+
+	const headings = cache.headings ?? [];
+	const index = headings.findIndex((h) => h.heading === target);
+	if (index === -1) return null;
+	const heading = headings[index];
+	const next = headings.slice(index + 1).find((h) => h.level <= heading.level);
+	return { from: heading.position.start.offset, to: next?.position.start.offset ?? length };
+}
+
+/**
+ * The source of content rendered from `sourcePath`: the embedded section
+ * when `element` sits in an embed with a subpath, the whole note otherwise,
+ * and the text cards of a canvas. Null when there is no readable source.
+ */
+export async function resolveRenderedSource(
+	app: App,
+	element: HTMLElement,
+	sourcePath: string,
+): Promise<string | null> {
+	const { vault, metadataCache } = app;
+	let file = vault.getFileByPath(sourcePath);
+	let subpath = "";
+
+	// An embed names its target; sourcePath may be the embedding note
+	const src = element.closest(".internal-embed")?.getAttribute("src");
+	if (src) {
+		const hash = src.indexOf("#");
+		const linkpath = hash === -1 ? src : src.slice(0, hash);
+		subpath = hash === -1 ? "" : src.slice(hash);
+		file = (linkpath ? metadataCache.getFirstLinkpathDest(linkpath, sourcePath) : null) ?? file;
+	}
+	if (!file) return null;
+
+	const text = await vault.cachedRead(file);
+	if (file.extension === "canvas") return getCanvasText(text);
+	if (file.extension !== "md") return null;
+
+	const cache = metadataCache.getFileCache(file);
+	const range = subpath && cache ? getSubpathRange(cache, subpath, text.length) : null;
+	return range ? text.slice(range.from, range.to) : text;
+}
@@ -0,0 +1,174 @@
+import type { Editor } from "obsidian";
+import type { UnderlineSyntax } from "./syntax";
+import { findDelimitedSpans, findUnderlineSpans } from "./tokenizer";
+
+/** Renders markdown to an HTML string (MarkdownRenderer inside Obsidian). */
+export type MarkdownToHtml = (markdown: string) => Promise<string>;
+
+interface UnderlineMark {
+	from: number;
+	to: number;
+	open: boolean; // false for a closing mark
+}
+
+/**
+ * The opening and closing marks of every underline span of the given
+ * syntaxes, found with the same rules as the editor decorations, so text in
+ * code, math and links is left alone.
+ */
+function findUnderlineMarks(markdown: string, syntaxes: UnderlineSyntax[]): UnderlineMark[] {
+	const marks: UnderlineMark[] = [];
+	for (const syntax of syntaxes) {
+		const spans =
+			syntax.id === "underscore"
+				? findUnderlineSpans(markdown)
+				: findDelimitedSpans(markdown, syntax.open, syntax.close);
+		for (const { from, to } of spans) {
+			marks.push({ from, to: from + syntax.open.length, open: true });
+			marks.push({ from: to - syntax.close.length, to, open: false });
+		}
+	}
+	return marks.sort((a, b) => a.from - b.from);
+}
+
+/** Replaces every underline span's marks with the given open/close strings. */
+function replaceUnderlineMarks(
+	markdown: string,
+	syntaxes: UnderlineSyntax[],
+	open: string,
+	close: string,
+): string {
+	let result = markdown;
+	// Back to front so earlier offsets stay valid
+	for (const mark of findUnderlineMarks(markdown, syntaxes).reverse()) {
+		result = result.slice(0, mark.from) + (mark.open ? open : close) + result.slice(mark.to);
+	}
+	return result;
+}
+
+/**
+ * Rewrites the underline spans of the note's syntaxes as inline `<u>` HTML,
+ * leaving all other markdown for the renderer: "_a_ and *b*" → "<u>a</u> and *b*".
+ */
+export function underlineToHtml(markdown: string, syntaxes: UnderlineSyntax[]): string {
+	return replaceUnderlineMarks(markdown, syntaxes, "<u>", "</u>");
+}
+
+/** Plain-text counterpart: drops the marks of underline spans. */
+export function stripUnderlineMarks(markdown: string, syntaxes: UnderlineSyntax[]): string {
+	return replaceUnderlineMarks(markdown, syntaxes, "", "");
+}
+
+/**
+ * Swaps reading-view underline elements (`.underscore-em`, `.underscore-u`)
+ * for `<u>` in a copied fragment, keeping their children, so pasted HTML
+ * shows a real underline.
+ */
+export function underscoreEmToU(root: ParentNode): void {
+	root.querySelectorAll(".underscore-em, .underscore-u").forEach((em) => {
+		const u = document.createElement("u");
+		while (em.firstChild) u.appendChild(em.firstChild);
+		em.replaceWith(u);
+	});
+}
+
+/** Writes both flavours to the system clipboard. */
+export async function writeClipboard(html: string, plain: string): Promise<void> {
+	await navigator.clipboard.write([
+		new ClipboardItem({
+			"text/html": new Blob([html], { type: "text/html" }),
+			"text/plain": new Blob([plain], { type: "text/plain" }),
+		}),
+	]);
+}
+
+/**
+ * Command handler — copies the editor selection (or the whole note when
+ * nothing is selected) as HTML with `<u>` underlines plus stripped plain text.
+ */
+export async function copyEditorAsRichText(
+	editor: Editor,
+	render: MarkdownToHtml,
+	syntaxes: UnderlineSyntax[],
+): Promise<void> {
+	const markdown = editor.somethingSelected() ? editor.getSelection() : editor.getValue();
+	const html = await render(underlineToHtml(markdown, syntaxes));
+	await writeClipboard(html, stripUnderlineMarks(markdown, syntaxes));
+}
+
+/**
+ * Builds the clipboard payload for a reading-view DOM selection, or returns
+ * null when the selection holds no underline so the native copy can proceed.
+ */
+export function getReadingSelectionPayload(
+	selection: Selection,
+): { html: string; plain: string } | null {
+	if (selection.rangeCount === 0 || selection.isCollapsed) return null;
+
+	const container = document.createElement("div");
+	for (let i = 0; i < selection.rangeCount; i++) {
+		const range = selection.getRangeAt(i);
+		const fragment = range.cloneContents();
+		// A selection entirely inside one underline clones only its text
+		const ancestor = range.commonAncestorContainer;
+		const enclosing = (ancestor instanceof Element ? ancestor : ancestor.parentElement)
+			?.closest(".underscore-em, .underscore-u");
+		if (enclosing) {
+			const wrapper = document.createElement("span");
+			wrapper.className = "underscore-em";
+			wrapper.appendChild(fragment);
+			container.appendChild(wrapper);
+		} else {
+			container.appendChild(fragment);
+		}
+	}
+
+	if (!container.querySelector(".underscore-em, .underscore-u")) return null;
+	underscoreEmToU(container);
+	return { html: container.innerHTML, plain: selection.toString() };
+}
+
+// Counts copy events, so a render that finishes late can tell it was superseded
+let copyCount = 0;
+
+/**
+ * Clipboard hook for the `copy` event. Editor selections get their marks
+ * stripped synchronously, then the rendered HTML replaces the clipboard
+ * contents once rendering finishes — unless another copy happened in the
+ * meantime; reading-view selections are converted in place. `syntaxes` are
+ * the ones enabled for the editor's note. Returns the deferred clipboard
+ * write, if any, for the caller to report failures.
+ */
+export function handleCopyEvent(
+	event: ClipboardEvent,
+	editor: Editor | null,
+	render: MarkdownToHtml,
+	syntaxes: UnderlineSyntax[],
+): Promise<void> | null {
+	const copy = ++copyCount;
+	const target = event.target instanceof Node ? event.target : null;
+	const element = target instanceof Element ? target : target?.parentElement;
+	if (!event.clipboardData || !element) return null;
+
+	if (editor && element.closest(".cm-editor")) {
+		if (!editor.somethingSelected()) return null;
+		const markdown = editor.getSelection();
+		if (findUnderlineMarks(markdown, syntaxes).length === 0) return null;
+		const plain = stripUnderlineMarks(markdown, syntaxes);
+		event.preventDefault();
+		event.clipboardData.setData("text/plain", plain);
+		return render(underlineToHtml(markdown, syntaxes)).then((html) =>
+			copy === copyCount ? writeClipboard(html, plain) : undefined,
+		);
+	}
+
+	if (element.closest(".markdown-reading-view, .markdown-preview-view")) {
+		const selection = element.ownerDocument.getSelection();
+		const payload = selection ? getReadingSelectionPayload(selection) : null;
+		if (!payload) return null;
+		event.preventDefault();
+		event.clipboardData.setData("text/html", payload.html);
+		event.clipboardData.setData("text/plain", payload.plain);
+	}
+	return null;
+}
@@ -0,0 +1,299 @@
+import { App, PluginSettingTab, Setting } from "obsidian";
+import type UnderlinePlugin from "./main";
+import type {
+	RenderProfile,
+	UnderlineColorMode,
+	UnderlineSettings,
+	UnderlineStyle,
+	ViewMode,
+} from "./settings";
+import type { UnderlineSyntaxId } from "./syntax";
+
+const SYNTAX_OPTIONS: Array<{ id: UnderlineSyntaxId; name: string; desc: string }> = [
+	{ id: "underscore", name: "_text_", desc: "Single-underscore emphasis, which other apps show as italics." },
+	{ id: "plus", name: "++text++", desc: "The markdown-it-ins syntax." },
+	{ id: "html", name: "<u>text</u>", desc: "Inline HTML underline tags." },
+	{ id: "custom", name: "Custom delimiter", desc: "A delimiter of your own, written on both sides of the text." },
+];
+
+const VIEW_MODE_OPTIONS: Array<{ mode: ViewMode; name: string; desc: string }> = [
+	{ mode: "source", name: "Source mode", desc: "The editor with Live Preview turned off." },
+	{ mode: "livePreview", name: "Live Preview", desc: "The editor with Live Preview on, including its tables." },
+	{ mode: "reading", name: "Reading view", desc: "Reading view, printing and PDF export." },
+	{ mode: "embed", name: "Embeds", desc: "Embedded notes, hover previews and canvas cards." },
+];
+
+const PROFILE_OPTIONS: Record<RenderProfile, string> = {
+	hidden: "Underline, hide marks",
+	dimmed: "Underline, dim marks",
+	italic: "Plain italics",
+	raw: "Raw text",
+};
+
+/** One glob per non-empty line. */
+function parseGlobList(value: string): string[] {
+	return value
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line !== "");
+}
+
+export class UnderlineSettingTab extends PluginSettingTab {
+	plugin: UnderlinePlugin;
+
+	constructor(app: App, plugin: UnderlinePlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const { containerEl } = this;
+		const settings = this.plugin.settings;
+		containerEl.empty();
+
+		new Setting(containerEl).setName("Appearance").setHeading();
+
+		new Setting(containerEl)
+			.setName("Underline style")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						solid: "Solid",
+						double: "Double",
+						dotted: "Dotted",
+						dashed: "Dashed",
+						wavy: "Wavy",
+					})
+					.setValue(settings.style)
+					.onChange(async (value) => {
+						settings.style = value as UnderlineStyle;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Thickness")
+			.setDesc("Line thickness in pixels. 0 uses the font's default.")
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 6, 1)
+					.setValue(settings.thickness)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						settings.thickness = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Offset")
+			.setDesc("Distance between the text and the line in pixels. 0 uses the font's default.")
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 10, 1)
+					.setValue(settings.offset)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						settings.offset = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Color")
+			.setDesc("Inherit keeps the text color, including theme emphasis colors.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						inherit: "Inherit from text",
+						accent: "Theme accent",
+						custom: "Custom",
+					})
+					.setValue(settings.colorMode)
+					.onChange(async (value) => {
+						settings.colorMode = value as UnderlineColorMode;
+						await this.plugin.saveSettings();
+						this.display(); // show/hide the custom color picker
+					}),
+			);
+
+		if (settings.colorMode === "custom") {
+			new Setting(containerEl)
+				.setName("Custom color")
+				.addColorPicker((picker) =>
+					picker.setValue(settings.customColor).onChange(async (value) => {
+						settings.customColor = value;
+						await this.plugin.saveSettings();
+					}),
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Keep italics")
+			.setDesc("Render underscore spans as both italic and underlined.")
+			.addToggle((toggle) =>
+				toggle.setValue(settings.keepItalic).onChange(async (value) => {
+					settings.keepItalic = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		new Setting(containerEl).setName("Syntax").setHeading();
+
+		for (const option of SYNTAX_OPTIONS) {
+			new Setting(containerEl)
+				.setName(option.name)
+				.setDesc(option.desc)
+				.addToggle((toggle) =>
+					toggle.setValue(settings.syntaxes.includes(option.id)).onChange(async (value) => {
+						settings.syntaxes = value
+							? [...settings.syntaxes, option.id]
+							: settings.syntaxes.filter((id) => id !== option.id);
+						await this.plugin.saveSettings();
+					}),
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Custom delimiter")
+			.setDesc("For example ^^ — no spaces, and not made only of _ or *.")
+			.addText((text) =>
+				text.setValue(settings.customDelimiter).onChange(async (value) => {
+					settings.customDelimiter = value.trim();
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		new Setting(containerEl)
+			.setName("Toggle inserts")
+			.setDesc("The syntax Toggle underline adds. Removing works for this syntax only.")
+			.addDropdown((dropdown) => {
+				for (const option of SYNTAX_OPTIONS) {
+					dropdown.addOption(option.id, option.name);
+				}
+				dropdown.setValue(settings.toggleSyntax).onChange(async (value) => {
+					settings.toggleSyntax = value as UnderlineSyntaxId;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Underscore folders")
+			.setDesc(
+				"Folders where _text_ underlines, one glob per line (Notes, Projects/**). " +
+				"Leave empty for the whole vault.",
+			)
+			.addTextArea((text) =>
+				text.setValue(settings.includeFolders.join("\n")).onChange(async (value) => {
+					settings.includeFolders = parseGlobList(value);
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		new Setting(containerEl)
+			.setName("Italic folders")
+			.setDesc(
+				"Folders where _text_ stays italic, one glob per line (Imports, Zettel*). " +
+				"A note's underline: true/false or underscore-mode: underline/italic property overrides both lists.",
+			)
+			.addTextArea((text) =>
+				text.setValue(settings.excludeFolders.join("\n")).onChange(async (value) => {
+					settings.excludeFolders = parseGlobList(value);
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		new Setting(containerEl).setName("View modes").setHeading();
+
+		for (const option of VIEW_MODE_OPTIONS) {
+			new Setting(containerEl)
+				.setName(option.name)
+				.setDesc(option.desc)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOptions(PROFILE_OPTIONS)
+						.setValue(settings.profiles[option.mode])
+						.onChange(async (value) => {
+							settings.profiles = { ...settings.profiles, [option.mode]: value as RenderProfile };
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+
+		new Setting(containerEl).setName("Editing").setHeading();
+
+		new Setting(containerEl)
+			.setName("Multi-line toggle")
+			.setDesc(
+				"How Toggle underline wraps a selection spanning several lines of one paragraph.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						"per-line": "One span per line",
+						"single-span": "One span for the whole selection",
+					})
+					.setValue(settings.multiLineToggle)
+					.onChange(async (value) => {
+						settings.multiLineToggle = value as UnderlineSettings["multiLineToggle"];
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Underline selection on _")
+			.setDesc("Typing _ with text selected underlines it, like Toggle underline, instead of replacing it.")
+			.addToggle((toggle) =>
+				toggle.setValue(settings.wrapSelectionOnType).onChange(async (value) => {
+					settings.wrapSelectionOnType = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		new Setting(containerEl)
+			.setName("Type over closing _")
+			.setDesc("Typing _ right before an automatically inserted closing mark moves past it instead of adding another.")
+			.addToggle((toggle) =>
+				toggle.setValue(settings.overtypeClosingMark).onChange(async (value) => {
+					settings.overtypeClosingMark = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		new Setting(containerEl)
+			.setName("Backspace removes empty __")
+			.setDesc("Backspace between an empty pair of underscores deletes both.")
+			.addToggle((toggle) =>
+				toggle.setValue(settings.deleteEmptyPair).onChange(async (value) => {
+					settings.deleteEmptyPair = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		new Setting(containerEl)
+			.setName("Copy underlines as rich text")
+			.setDesc(
+				"Copying from the editor or reading view puts <u> underlines on the clipboard, " +
+				"so they survive pasting into email or documents. " +
+				"The Copy as rich text command works either way.",
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(settings.richTextCopy).onChange(async (value) => {
+					settings.richTextCopy = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+
+		new Setting(containerEl)
+			.setName("Convert pasted underlines")
+			.setDesc(
+				"When pasting from Word, Google Docs or web pages, underlined text becomes _underscore_ markup.",
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(settings.convertPastedUnderlines).onChange(async (value) => {
+					settings.convertPastedUnderlines = value;
+					await this.plugin.saveSettings();
+				}),
+			);
+	}
+}
@@ -0,0 +1,126 @@
+import type { ToggleOptions } from "./toggle-command";
+import {
+	HTML_SYNTAX,
+	PLUS_SYNTAX,
+	UNDERSCORE_SYNTAX,
+	UnderlineSyntax,
+	UnderlineSyntaxId,
+	customSyntax,
+} from "./syntax";
+
+export type UnderlineStyle = "solid" | "double" | "dotted" | "dashed" | "wavy";
+export type UnderlineColorMode = "accent" | "custom" | "inherit";
+
+/**
+ * How a view shows underline spans: underlined with the marks hidden (shown
+ * while editing the span), underlined with faint marks, as plain italics,
+ * or as raw text with the plugin staying out of the way.
+ */
+export type RenderProfile = "hidden" | "dimmed" | "italic" | "raw";
+export type ViewMode = "source" | "livePreview" | "reading" | "embed";
+
+export interface UnderlineSettings {
+	style: UnderlineStyle;
+	thickness: number;   // px; 0 means "auto" (let the font decide)
+	offset: number;      // px; 0 means "auto"
+	colorMode: UnderlineColorMode;
+	customColor: string; // only used when colorMode === "custom"
+	keepItalic: boolean;
+	multiLineToggle: ToggleOptions["multiLine"];
+	richTextCopy: boolean; // convert underlines to <u> on every copy, not just the command
+	convertPastedUnderlines: boolean;
+	syntaxes: UnderlineSyntaxId[];  // which syntaxes count as underline
+	customDelimiter: string;        // used when "custom" is enabled
+	toggleSyntax: UnderlineSyntaxId; // what Toggle underline inserts
+	includeFolders: string[];       // globs; `_text_` underlines only here when set
+	excludeFolders: string[];       // globs where `_text_` stays italic
+	profiles: Record<ViewMode, RenderProfile>;
+	wrapSelectionOnType: boolean;   // typing `_` over a selection underlines it
+	overtypeClosingMark: boolean;   // typing `_` before an auto-inserted closing mark steps over it
+	deleteEmptyPair: boolean;       // Backspace in an empty `__` removes both marks
+}
+
+export const DEFAULT_SETTINGS: UnderlineSettings = {
+	style: "solid",
+	thickness: 0,
+	offset: 0,
+	colorMode: "inherit",
+	customColor: "#7f6df2",
+	keepItalic: false,
+	multiLineToggle: "per-line",
+	richTextCopy: false,
+	convertPastedUnderlines: true,
+	syntaxes: ["underscore"],
+	customDelimiter: "",
+	toggleSyntax: "underscore",
+	includeFolders: [],
+	excludeFolders: [],
+	profiles: {
+		source: "dimmed",
+		livePreview: "hidden",
+		reading: "hidden",
+		embed: "hidden",
+	},
+	wrapSelectionOnType: true,
+	overtypeClosingMark: true,
+	deleteEmptyPair: true,
+};
+
+/** The enabled syntaxes in a fixed order; "custom" only when its delimiter is usable. */
+export function getEnabledSyntaxes(settings: UnderlineSettings): UnderlineSyntax[] {
+	const candidates: Array<UnderlineSyntax | null> = [
+		UNDERSCORE_SYNTAX,
+		PLUS_SYNTAX,
+		HTML_SYNTAX,
+		customSyntax(settings.customDelimiter),
+	];
+	return candidates.filter(
+		(syntax): syntax is UnderlineSyntax => syntax !== null && settings.syntaxes.includes(syntax.id),
+	);
+}
+
+/**
+ * The syntax Toggle underline inserts in a note with `enabled` syntaxes:
+ * the chosen one when it is enabled there, otherwise the first enabled one.
+ * Null when the note has none.
+ */
+export function getToggleSyntax(
+	settings: UnderlineSettings,
+	enabled: UnderlineSyntax[] = getEnabledSyntaxes(settings),
+): UnderlineSyntax | null {
+	return enabled.find((syntax) => syntax.id === settings.toggleSyntax) ?? enabled[0] ?? null;
+}
+
+/**
+ * Maps settings to the CSS custom properties consumed by styles.css.
+ * Both the editor decoration (.cm-underscore-underline) and the reading-mode
+ * class (.underscore-em) read from these, so one update restyles every view.
+ */
+export function getUnderlineCssVariables(
+	settings: UnderlineSettings,
+): Record<string, string> {
+	let color: string;
+	switch (settings.colorMode) {
+		case "accent":
+			color = "var(--text-accent)";
+			break;
+		case "custom":
+			color = settings.customColor;
+			break;
+		default:
+			color = "currentColor";
+	}
+
+	return {
+		"--underscore-underline-style": settings.style,
+		"--underscore-underline-thickness":
+			settings.thickness > 0 ? `${settings.thickness}px` : "auto",
+		// "auto" can come out as a hairline in PDFs
+		"--underscore-print-thickness":
+			settings.thickness > 0 ? `${settings.thickness}px` : "max(1px, 0.06em)",
+		"--underscore-underline-offset":
+			settings.offset > 0 ? `${settings.offset}px` : "auto",
+		"--underscore-underline-color": color,
+		"--underscore-font-style": settings.keepItalic ? "italic" : "normal",
+	};
+}
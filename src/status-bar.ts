@@ -0,0 +1,25 @@
+/**
+ * The status-bar indicator: whether the cursor is in an underline and how
+ * many underlines the note has.
+ */
+
+import type { UnderlineSyntax } from "./syntax";
+import { findDelimitedSpans, findUnderlineSpans } from "./tokenizer";
+
+/** The underline spans of every enabled syntax in a note. */
+export function countUnderlineSpans(markdown: string, syntaxes: UnderlineSyntax[]): number {
+	let count = 0;
+	for (const syntax of syntaxes) {
+		count +=
+			syntax.id === "underscore"
+				? findUnderlineSpans(markdown).length
+				: findDelimitedSpans(markdown, syntax.open, syntax.close).length;
+	}
+	return count;
+}
+
+/** The status-bar text, e.g. "Underlined · 3 underlines". */
+export function formatUnderlineStatus(inUnderline: boolean, count: number): string {
+	const total = `${count} ${count === 1 ? "underline" : "underlines"}`;
+	return inUnderline ? `Underlined · ${total}` : total;
+}
@@ -0,0 +1,39 @@
+/**
+ * The markdown syntaxes that can mean "underline". `_text_` is CommonMark
+ * emphasis and goes through the emphasis tokenizer; the others are plain
+ * open/close delimiter pairs.
+ */
+
+export type UnderlineSyntaxId = "underscore" | "plus" | "html" | "custom";
+
+export interface UnderlineSyntax {
+	id: UnderlineSyntaxId;
+	open: string;
+	close: string;
+}
+
+export const UNDERSCORE_SYNTAX: UnderlineSyntax = { id: "underscore", open: "_", close: "_" };
+
+// markdown-it-ins
+export const PLUS_SYNTAX: UnderlineSyntax = { id: "plus", open: "++", close: "++" };
+
+export const HTML_SYNTAX: UnderlineSyntax = { id: "html", open: "<u>", close: "</u>" };
+
+/**
+ * A user-chosen symmetric delimiter, e.g. `^^`. Null when it can't be used:
+ * empty, containing whitespace or backslashes, or made only of emphasis
+ * characters, which the emphasis tokenizer already owns.
+ */
+export function customSyntax(delimiter: string): UnderlineSyntax | null {
+	if (delimiter === "" || /[\s\\]/.test(delimiter) || /^[_*]+$/.test(delimiter)) return null;
+	return { id: "custom", open: delimiter, close: delimiter };
+}
+
+/**
+ * When the delimiter is one character repeated (`_`, `++`), that character —
+ * a longer run of it is different syntax (`__` is bold). Null otherwise.
+ */
+export function delimiterRunChar(syntax: UnderlineSyntax): string | null {
+	const { open, close } = syntax;
+	return open === close && open.split("").every((c) => c === open[0]) ? open[0] : null;
+}
@@ -0,0 +1,111 @@
+import { EditorView, PluginValue, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import { underlineProfile, underlineSyntaxes } from "./editor-decoration";
+import { transformTableCell } from "./reading-mode";
+import { findTableRows, isTableDelimiterRow, splitTableCells } from "./tokenizer";
+
+// Live Preview replaces a table's source lines with this widget
+const TABLE_WIDGET_SELECTOR = ".cm-table-widget table";
+
+/**
+ * Marks the underlines in the cells of one table widget. The widget's cells
+ * are rendered markdown without section info, so each cell is classified
+ * against the matching cell of the table's source in the document. A cell
+ * being edited holds a nested editor, which decorates itself, and is skipped.
+ */
+function transformTableWidget(view: EditorView, table: HTMLTableElement): void {
+	let pos: number;
+	try {
+		pos = view.posAtDOM(table);
+	} catch {
+		return; // no longer in the document
+	}
+	const doc = view.state.doc;
+	const lineText = (n: number) => (n >= 1 && n <= doc.lines ? doc.line(n).text : null);
+
+	// posAtDOM may land anywhere in the widget's range: classify the lines
+	// with pipes around it once, then walk back to the header row
+	const at = doc.lineAt(pos).number;
+	let runFrom = at;
+	let runTo = at + 1;
+	while (runFrom > 1 && lineText(runFrom - 1)?.includes("|")) runFrom--;
+	while (runTo <= doc.lines && lineText(runTo)?.includes("|")) runTo++;
+	const tableRows = findTableRows(lineText, runFrom, runTo);
+	const isRow = (n: number) => tableRows[n - runFrom] ?? false;
+	let first = at;
+	while (first > runFrom && isRow(first - 1)) first--;
+	const rows: string[] = [];
+	for (let n = first; isRow(n); n++) {
+		const text = doc.line(n).text;
+		if (!isTableDelimiterRow(text)) rows.push(text);
+	}
+
+	const syntaxes = view.state.facet(underlineSyntaxes);
+	const profile = view.state.facet(underlineProfile);
+	Array.from(table.rows).forEach((row, r) => {
+		const source = rows[r];
+		if (source === undefined) return;
+		const cells = splitTableCells(source);
+		Array.from(row.cells).forEach((cell, c) => {
+			if (!cells[c] || cell.querySelector(".cm-editor")) return;
+			transformTableCell(cell, source.slice(cells[c].from, cells[c].to), syntaxes, profile);
+		});
+	});
+}
+
+/**
+ * Watches the editor for Live Preview table widgets and marks the
+ * underlines in their cells, since the post-processor can't classify
+ * `_text_` there. Widgets render asynchronously, so this reacts to DOM
+ * mutations rather than to view updates; it stops observing while it
+ * edits the cells so its own changes don't trigger it again.
+ */
+class TableWidgetObserver implements PluginValue {
+	private observer: MutationObserver;
+
+	constructor(private view: EditorView) {
+		this.observer = new MutationObserver((records) => this.process(records));
+		this.observer.observe(view.contentDOM, { childList: true, subtree: true });
+		queueMicrotask(() => this.process());
+	}
+
+	update(update: ViewUpdate): void {
+		if (
+			update.startState.facet(underlineSyntaxes) !== update.state.facet(underlineSyntaxes) ||
+			update.startState.facet(underlineProfile) !== update.state.facet(underlineProfile)
+		) {
+			queueMicrotask(() => this.process());
+		}
+	}
+
+	/** Processes the tables touched by `records`, or every table when there are none. */
+	private process(records?: MutationRecord[]): void {
+		const tables = new Set<HTMLTableElement>();
+		if (!records) {
+			this.view.contentDOM.querySelectorAll<HTMLTableElement>(TABLE_WIDGET_SELECTOR).forEach((t) => tables.add(t));
+		} else {
+			for (const record of records) {
+				const target = record.target instanceof Element ? record.target : record.target.parentElement;
+				const table = target?.closest<HTMLTableElement>(TABLE_WIDGET_SELECTOR);
+				if (table) tables.add(table);
+				record.addedNodes.forEach((node) => {
+					if (!(node instanceof Element)) return;
+					if (node.matches(TABLE_WIDGET_SELECTOR)) tables.add(node as HTMLTableElement);
+					node.querySelectorAll<HTMLTableElement>(TABLE_WIDGET_SELECTOR).forEach((t) => tables.add(t));
+				});
+			}
+		}
+		if (tables.size === 0) return;
+
+		this.observer.disconnect();
+		for (const table of tables) {
+			if (table.isConnected) transformTableWidget(this.view, table);
+		}
+		this.observer.observe(this.view.contentDOM, { childList: true, subtree: true });
+	}
+
+	destroy(): void {
+		this.observer.disconnect();
+	}
+}
+
+export const tableWidgetPlugin = ViewPlugin.fromClass(TableWidgetObserver);
@@ -1,4 +1,15 @@
-import type { Editor, EditorPosition } from "obsidian";
+import type { Editor, EditorChange, EditorPosition, EditorSelection } from "obsidian";
+import { UNDERSCORE_SYNTAX, UnderlineSyntax, delimiterRunChar } from "./syntax";
+import {
+	continuesParagraph,
+	findSkippedBlocks,
+	findSkippedInlineRanges,
+	findUnderlineSpans,
+	isTableDelimiterRow,
+	isTableRow,
+	splitTableCells,
+	tokenizeDelimited,
+} from "./tokenizer";
 
 // Characters that terminate word detection — whitespace and markdown syntax chars
 const STOP_CHARS = /[\s_*~`[\]()|#]/;
@@ -29,56 +40,61 @@ export function detectWordRange(
 
 export interface UnderlineState {
 	isUnderlined: boolean;
-	markFrom: number;    // ch of opening _ (or selFrom if not underlined)
-	markTo: number;      // ch past closing _ (or selTo if not underlined)
-	contentFrom: number; // ch of content start (excluding _)
-	contentTo: number;   // ch of content end (excluding _)
+	markFrom: number;    // ch of opening mark (or selFrom if not underlined)
+	markTo: number;      // ch past closing mark (or selTo if not underlined)
+	contentFrom: number; // ch of content start (excluding marks)
+	contentTo: number;   // ch of content end (excluding marks)
 }
 
 /**
- * Determines whether a selection [selFrom, selTo) is already underlined,
- * and returns positions for the marks and content.
+ * Determines whether a selection [selFrom, selTo) is already underlined
+ * with the given syntax, and returns positions for the marks and content.
  *
- * Two detection cases:
+ * Two detection cases (shown for `_`):
  *   Case 1 — selection includes marks: line[selFrom]==='_' && line[selTo-1]==='_'
  *   Case 2 — selection excludes marks: line[selFrom-1]==='_' && line[selTo]==='_'
  *
- * Double-underscore (__) is guarded against in both cases.
+ * For delimiters made of one repeated character, a longer run of that
+ * character (`__` for `_`) is guarded against in both cases.
  */
 export function getUnderlineState(
 	line: string,
 	selFrom: number,
 	selTo: number,
+	syntax: UnderlineSyntax = UNDERSCORE_SYNTAX,
 ): UnderlineState {
-	// Case 1: selection includes the underscore marks
+	const { open, close } = syntax;
+	const runChar = delimiterRunChar(syntax);
+	const notRun = (ch: string | undefined) => runChar === null || ch !== runChar;
+
+	// Case 1: selection includes the marks
 	if (
-		selTo - selFrom >= 2 &&
-		line[selFrom] === "_" &&
-		line[selTo - 1] === "_" &&
-		line[selFrom + 1] !== "_" // guard: avoid __ (strong emphasis)
+		selTo - selFrom >= open.length + close.length &&
+		line.startsWith(open, selFrom) &&
+		line.startsWith(close, selTo - close.length) &&
+		notRun(line[selFrom + open.length]) // guard: avoid __ (strong emphasis)
 	) {
 		return {
 			isUnderlined: true,
 			markFrom: selFrom,
 			markTo: selTo,
-			contentFrom: selFrom + 1,
-			contentTo: selTo - 1,
+			contentFrom: selFrom + open.length,
+			contentTo: selTo - close.length,
 		};
 	}
 
-	// Case 2: selection excludes the underscore marks
+	// Case 2: selection excludes the marks
 	if (
-		selFrom > 0 &&
-		selTo < line.length &&
-		line[selFrom - 1] === "_" &&
-		line[selTo] === "_" &&
-		line[selFrom - 2] !== "_" && // guard: avoid __ on left side
-		line[selTo + 1] !== "_"      // guard: avoid __ on right side
+		selFrom >= open.length &&
+		line.startsWith(open, selFrom - open.length) &&
+		line.startsWith(close, selTo) &&
+		notRun(line[selFrom - open.length - 1]) && // guard: avoid __ on left side
+		notRun(line[selTo + close.length])         // guard: avoid __ on right side
 	) {
 		return {
 			isUnderlined: true,
-			markFrom: selFrom - 1,
-			markTo: selTo + 1,
+			markFrom: selFrom - open.length,
+			markTo: selTo + close.length,
 			contentFrom: selFrom,
 			contentTo: selTo,
 		};
@@ -94,10 +110,365 @@ export function getUnderlineState(
 	};
 }
 
+// Formatting markers the toggle looks through and wraps around, longest first
+const FORMAT_MARKERS = ["**", "__", "~~", "==", "*", "_"];
+const MARKER_CHARS_RE = /^[*_~=]*$/;
+const WORD_CHAR_RE = /[\p{L}\p{N}]/u;
+const WHITESPACE_RE = /\s/;
+
+interface Interval {
+	from: number;
+	to: number;
+}
+
+/** The parts of the editor the toggle reads and edits through. */
+export type LineEditor = Pick<Editor, "getLine" | "lineCount" | "replaceRange">;
+
+/**
+ * Collects the toggle's edits over the editor's lines without applying
+ * them, so the command can apply them all as one transaction — one undo
+ * step however many cursors and segments it touched. Toggle edits never
+ * span lines, so the buffer only tracks changed lines.
+ */
+class LineBuffer implements LineEditor {
+	private changed = new Map<number, string>();
+
+	constructor(private editor: Editor) {}
+
+	getLine(n: number): string {
+		return this.changed.get(n) ?? this.editor.getLine(n);
+	}
+
+	lineCount(): number {
+		return this.editor.lineCount();
+	}
+
+	replaceRange(text: string, from: EditorPosition, to: EditorPosition = from): void {
+		const line = this.getLine(from.line);
+		this.changed.set(from.line, line.slice(0, from.ch) + text + line.slice(to.ch));
+	}
+
+	/** One change per edited line, against the editor's current text. */
+	changes(): EditorChange[] {
+		return Array.from(this.changed, ([n, after]) => lineChange(n, this.editor.getLine(n), after))
+			.filter((change) => change.from.ch !== change.to?.ch || change.text !== "")
+			.sort((a, b) => a.from.line - b.from.line);
+	}
+}
+
+/** Underline spans of the syntax on one line, marks included. */
+function findSyntaxSpans(line: string, syntax: UnderlineSyntax): Interval[] {
+	return syntax.id === "underscore"
+		? findUnderlineSpans(line)
+		: tokenizeDelimited(line, syntax.open, syntax.close);
+}
+
+/** Widens [from, to) so it doesn't cut through inline code, math or a link. */
+function expandToWholeConstructs(line: string, from: number, to: number): { from: number; to: number } {
+	for (const r of findSkippedInlineRanges(line)) {
+		if (r.from < from && from < r.to) from = r.from;
+		if (r.from < to && to < r.to) to = r.to;
+	}
+	return { from, to };
+}
+
+/** Widens [from, to) through matching marker pairs right outside it: word → **word**. */
+function expandThroughMarkers(line: string, from: number, to: number): { from: number; to: number } {
+	for (;;) {
+		const marker = FORMAT_MARKERS.find(
+			(m) => line.slice(from - m.length, from) === m && line.startsWith(m, to),
+		);
+		if (!marker || from < marker.length) return { from, to };
+		from -= marker.length;
+		to += marker.length;
+	}
+}
+
+/**
+ * Like getUnderlineState, but looks through the formatting around the
+ * selection. An underline counts as enclosing the selection when only
+ * formatting markers separate them, so `word` in `_**word**_` finds the
+ * outer underscores. When nothing encloses it, the range to wrap is widened
+ * through adjacent marker pairs, so the underline always ends up outermost
+ * (`**word**` → `_**word**_`), and never cuts a link, code span or math.
+ */
+export function getToggleTarget(
+	line: string,
+	selFrom: number,
+	selTo: number,
+	syntax: UnderlineSyntax = UNDERSCORE_SYNTAX,
+): UnderlineState {
+	const { open, close } = syntax;
+	const range = expandToWholeConstructs(line, selFrom, selTo);
+
+	// The selection without formatting markers at its edges
+	let coreFrom = range.from;
+	let coreTo = range.to;
+	while (coreFrom < coreTo && MARKER_CHARS_RE.test(line[coreFrom])) coreFrom++;
+	while (coreTo > coreFrom && MARKER_CHARS_RE.test(line[coreTo - 1])) coreTo--;
+	if (coreFrom === coreTo) {
+		coreFrom = range.from;
+		coreTo = range.to;
+	}
+
+	const spans = findSyntaxSpans(line, syntax);
+	const enclosing = spans
+		.filter((s) => {
+			if (s.from === coreFrom && s.to === coreTo) return true; // selection is the whole span
+			return (
+				s.from + open.length <= coreFrom &&
+				coreTo <= s.to - close.length &&
+				MARKER_CHARS_RE.test(line.slice(s.from + open.length, coreFrom)) &&
+				MARKER_CHARS_RE.test(line.slice(coreTo, s.to - close.length))
+			);
+		})
+		.sort((a, b) => a.to - a.from - (b.to - b.from))[0];
+	if (enclosing) {
+		return {
+			isUnderlined: true,
+			markFrom: enclosing.from,
+			markTo: enclosing.to,
+			contentFrom: enclosing.from + open.length,
+			contentTo: enclosing.to - close.length,
+		};
+	}
+
+	// Marks right next to the selection that the tokenizer doesn't pair (a_b_c).
+	// Only when no span is involved: in `_a_ b _c_` the outer marks belong to two spans.
+	if (!spans.some((s) => s.from < range.to && range.from < s.to)) {
+		const adjacent = getUnderlineState(line, range.from, range.to, syntax);
+		if (adjacent.isUnderlined) return adjacent;
+	}
+
+	const wrap = expandThroughMarkers(line, range.from, range.to);
+	return {
+		isUnderlined: false,
+		markFrom: wrap.from,
+		markTo: wrap.to,
+		contentFrom: wrap.from,
+		contentTo: wrap.to,
+	};
+}
+
+/**
+ * A line with the marks of its outermost underline spans taken out: `plain`
+ * is the remaining text, `underlined[i]` tells whether plain[i] sat inside a
+ * span, and `toPlain[pos]` maps a line offset to a plain offset (offsets
+ * inside a mark map to the content edge).
+ */
+interface StrippedLine {
+	plain: string;
+	underlined: boolean[];
+	toPlain: number[];
+}
+
+function stripMarks(line: string, syntax: UnderlineSyntax): StrippedLine {
+	const { open, close } = syntax;
+	const all = findSyntaxSpans(line, syntax);
+	const spans = all.filter((s) => !all.some((o) => o !== s && o.from <= s.from && s.to <= o.to));
+	let plain = "";
+	const underlined: boolean[] = [];
+	const toPlain: number[] = [];
+	for (let pos = 0; pos < line.length; pos++) {
+		toPlain.push(plain.length);
+		const span = spans.find((s) => s.from <= pos && pos < s.to);
+		if (span && (pos < span.from + open.length || pos >= span.to - close.length)) continue;
+		plain += line[pos];
+		underlined.push(span !== undefined);
+	}
+	toPlain.push(plain.length);
+	return { plain, underlined, toPlain };
+}
+
+/**
+ * The range the coverage rule acts on: widened like getToggleTarget, and for
+ * `_` to whole words — an underscore inside a word can't open or close a span.
+ */
+function coverageRange(line: string, from: number, to: number, syntax: UnderlineSyntax): Interval {
+	const whole = expandToWholeConstructs(line, from, to);
+	const range = expandThroughMarkers(line, whole.from, whole.to);
+	if (syntax.id === "underscore") {
+		const inWord = (pos: number) => WORD_CHAR_RE.test(line[pos - 1] ?? "") && WORD_CHAR_RE.test(line[pos] ?? "");
+		while (inWord(range.from)) range.from--;
+		while (inWord(range.to)) range.to++;
+	}
+	return range;
+}
+
+/**
+ * How many of the selected non-whitespace characters of a line are
+ * underlined, out of how many. Marks themselves don't count.
+ */
+function lineCoverage(
+	line: string,
+	from: number,
+	to: number,
+	syntax: UnderlineSyntax,
+): { underlined: number; total: number } {
+	const { plain, underlined, toPlain } = stripMarks(line, syntax);
+	const range = coverageRange(line, from, to, syntax);
+	let covered = 0;
+	let total = 0;
+	for (let i = toPlain[range.from]; i < toPlain[range.to]; i++) {
+		if (WHITESPACE_RE.test(plain[i])) continue;
+		total++;
+		if (underlined[i]) covered++;
+	}
+	return { underlined: covered, total };
+}
+
+/**
+ * Underlines or un-underlines [from, to) of a line the way a word processor
+ * does: removing part of a span splits it, adding across a span edge extends
+ * it and adding across several spans merges them. Spans never start or end
+ * with whitespace. Returns the new line and the selected text's new range,
+ * or null when the result can't be written in the syntax (the tokenizer
+ * wouldn't read back the intended spans).
+ */
+export function setUnderline(
+	line: string,
+	from: number,
+	to: number,
+	underline: boolean,
+	syntax: UnderlineSyntax = UNDERSCORE_SYNTAX,
+): { text: string; from: number; to: number } | null {
+	const { open, close } = syntax;
+	const { plain, underlined, toPlain } = stripMarks(line, syntax);
+	const range = coverageRange(line, from, to, syntax);
+	const selFrom = toPlain[range.from];
+	const selTo = toPlain[range.to];
+
+	const want = underlined.map((u, i) => (i >= selFrom && i < selTo ? underline : u));
+	const runs: Interval[] = [];
+	for (let i = 0; i < plain.length; ) {
+		if (!want[i]) {
+			i++;
+			continue;
+		}
+		let end = i;
+		while (end < plain.length && want[end]) end++;
+		let a = i;
+		let b = end;
+		while (a < b && WHITESPACE_RE.test(plain[a])) a++;
+		while (b > a && WHITESPACE_RE.test(plain[b - 1])) b--;
+		if (a < b) runs.push({ from: a, to: b });
+		i = end;
+	}
+
+	let text = "";
+	const newPos: number[] = [];
+	const expected: Interval[] = [];
+	let run = 0;
+	for (let i = 0; i <= plain.length; i++) {
+		if (run < runs.length && runs[run].to === i) {
+			text += close;
+			expected[run].to = text.length;
+			run++;
+		}
+		if (run < runs.length && runs[run].from === i) {
+			expected.push({ from: text.length, to: -1 });
+			text += open;
+		}
+		newPos.push(text.length);
+		if (i < plain.length) text += plain[i];
+	}
+
+	const found = findSyntaxSpans(text, syntax);
+	if (!expected.every((e) => found.some((f) => f.from === e.from && f.to === e.to))) {
+		return null;
+	}
+	return {
+		text,
+		from: newPos[selFrom],
+		to: selTo > selFrom ? newPos[selTo - 1] + 1 : newPos[selTo],
+	};
+}
+
+/** The change that turns `before` into `after`, covering only the part that differs. */
+function lineChange(lineNum: number, before: string, after: string): EditorChange {
+	let start = 0;
+	while (start < before.length && start < after.length && before[start] === after[start]) start++;
+	let end = 0;
+	while (
+		end < before.length - start &&
+		end < after.length - start &&
+		before[before.length - 1 - end] === after[after.length - 1 - end]
+	) {
+		end++;
+	}
+	return {
+		text: after.slice(start, after.length - end),
+		from: { line: lineNum, ch: start },
+		to: { line: lineNum, ch: before.length - end },
+	};
+}
+
+/** Replaces only the part of a line that changed, so unrelated text isn't rewritten. */
+function replaceLine(editor: LineEditor, lineNum: number, before: string, after: string): void {
+	const { text, from, to } = lineChange(lineNum, before, after);
+	editor.replaceRange(text, from, to);
+}
+
+/**
+ * Toggles underline on a single-line range [selFrom, selTo) and returns the
+ * selection that should follow the edit, without applying it. In a table
+ * row, `cell` confines the toggle to the cell's text.
+ * If the range (or its surroundings) are already underlined → removes marks
+ * and selects the content. If it only partly overlaps underlines → applies
+ * the character-coverage rule (split, extend or merge) and keeps the text
+ * selected. Otherwise → wraps the trimmed range, widened to whole words for
+ * `_`, with the syntax's marks and collapses the cursor to after the closing
+ * mark so subsequent typing continues past the word. Returns null, leaving the
+ * line alone, when the wrapped text wouldn't read back as one span.
+ */
+function toggleSingleLine(
+	editor: LineEditor,
+	lineNum: number,
+	selFrom: number,
+	selTo: number,
+	syntax: UnderlineSyntax,
+	cell?: Interval,
+): EditorSelection | null {
+	if (selFrom === selTo) return null; // empty range — nothing to do
+
+	const full = editor.getLine(lineNum);
+	const base = cell?.from ?? 0;
+	const line = cell ? full.slice(cell.from, cell.to) : full;
+	const at = (ch: number): EditorPosition => ({ line: lineNum, ch: base + ch });
+	selFrom -= base;
+	selTo -= base;
+	const state = getToggleTarget(line, selFrom, selTo, syntax);
+	const content = line.slice(state.contentFrom, state.contentTo);
+
+	const overlaps = findSyntaxSpans(line, syntax).some(
+		(s) => s.from < state.markTo && state.markFrom < s.to,
+	);
+	if (!state.isUnderlined && overlaps) {
+		const { underlined, total } = lineCoverage(line, selFrom, selTo, syntax);
+		const result = setUnderline(line, selFrom, selTo, underlined < total, syntax);
+		if (!result) return null;
+		replaceLine(editor, lineNum, full, full.slice(0, base) + result.text + full.slice(base + line.length));
+		return { anchor: at(result.from), head: at(result.to) };
+	}
+
+	if (state.isUnderlined) {
+		// Remove marks
+		editor.replaceRange(content, at(state.markFrom), at(state.markTo));
+		return { anchor: at(state.markFrom), head: at(state.markFrom + content.length) };
+	}
+
+	// Add marks
+	const result = setUnderline(line, selFrom, selTo, true, syntax);
+	const added = result && findSyntaxSpans(result.text, syntax).find((s) => s.from < result.to && result.from < s.to);
+	if (!result || !added) return null;
+	replaceLine(editor, lineNum, full, full.slice(0, base) + result.text + full.slice(base + line.length));
+	return { anchor: at(added.to), head: at(added.to) };
+}
+
 /**
  * Applies underline toggle for a single-line range [selFrom, selTo).
  * If the range (or its surroundings) are already underlined → removes marks.
- * Otherwise → wraps with underscores.
+ * Otherwise → wraps with the syntax's marks (underscores by default).
  * Adjusts the editor selection to the content range after the edit.
  */
 export function applySingleLineToggle(
@@ -105,37 +476,11 @@ export function applySingleLineToggle(
 	lineNum: number,
 	selFrom: number,
 	selTo: number,
+	syntax: UnderlineSyntax = UNDERSCORE_SYNTAX,
 ): void {
-	if (selFrom === selTo) return; // empty range — nothing to do
-
-	const line = editor.getLine(lineNum);
-	const state = getUnderlineState(line, selFrom, selTo);
-	const content = line.slice(state.contentFrom, state.contentTo);
-
-	if (state.isUnderlined) {
-		// Remove marks
-		editor.replaceRange(
-			content,
-			{ line: lineNum, ch: state.markFrom },
-			{ line: lineNum, ch: state.markTo },
-		);
-		editor.setSelection(
-			{ line: lineNum, ch: state.markFrom },
-			{ line: lineNum, ch: state.markFrom + content.length },
-		);
-	} else {
-		// Add marks
-		editor.replaceRange(
-			`_${content}_`,
-			{ line: lineNum, ch: selFrom },
-			{ line: lineNum, ch: selTo },
-		);
-		// Collapse cursor to after the closing _ so subsequent typing continues past the word
-		const afterMark = selFrom + content.length + 2;
-		editor.setSelection(
-			{ line: lineNum, ch: afterMark },
-			{ line: lineNum, ch: afterMark },
-		);
+	const result = toggleSingleLine(editor, lineNum, selFrom, selTo, syntax);
+	if (result) {
+		editor.setSelection(result.anchor, result.head);
 	}
 }
 
@@ -161,106 +506,457 @@ function getLineSlice(
 	return { from: 0, to: line.length };
 }
 
+// Block syntax at the start of a line that marks stay outside of: indentation,
+// quote markers, then a callout header, a list marker with its optional
+// checkbox, or heading hashes
+const LINE_PREFIX_RE =
+	/^[ \t]*(?:>[ \t]?)*(?:\[![^\]]*\][+-]?[ \t]*|(?:[-*+]|\d+[.)])[ \t]+(?:\[.\][ \t]+)?|#{1,6}(?:[ \t]+|$))?/;
+// The optional closing hashes of a heading: `## Title ##`
+const HEADING_CLOSE_RE = /[ \t]+#+[ \t]*$/;
+const THEMATIC_BREAK_RE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+
+/** The prose part of a line: what's left after its block prefix (and a heading's closing hashes). */
+function getProseRange(line: string): Interval {
+	const prefix = LINE_PREFIX_RE.exec(line)?.[0] ?? "";
+	const close = /#[ \t]*$/.test(prefix) ? HEADING_CLOSE_RE.exec(line) : null;
+	return { from: prefix.length, to: close && close.index >= prefix.length ? close.index : line.length };
+}
+
 /**
- * Counts how many lines in [selFrom.line, selTo.line] have their
- * selected slice already underlined. Empty slices are excluded from the total.
+ * Lines without prose to underline: frontmatter, fenced code and `$$` math
+ * blocks (from the fence line to the closing one), and thematic breaks.
  */
-export function countUnderlinedLines(
-	editor: Editor,
+function findNonProseLines(editor: LineEditor): Set<number> {
+	const lines: string[] = [];
+	for (let i = 0; i < editor.lineCount(); i++) lines.push(editor.getLine(i));
+	const text = lines.join("\n");
+	const lineStarts: number[] = [];
+	let offset = 0;
+	for (const line of lines) {
+		lineStarts.push(offset);
+		offset += line.length + 1;
+	}
+	const lineAt = (pos: number) => {
+		let n = 0;
+		while (n + 1 < lineStarts.length && lineStarts[n + 1] <= pos) n++;
+		return n;
+	};
+
+	const skipped = new Set<number>();
+	lines.forEach((line, n) => {
+		if (THEMATIC_BREAK_RE.test(line)) skipped.add(n);
+	});
+	for (const block of findSkippedBlocks(text)) {
+		const first = lineAt(block.from);
+		// Only blocks that open a line: `$$x$$` inside a sentence is inline math
+		if (text.slice(lineStarts[first], block.from).replace(/^[ \t>]*/, "") !== "") continue;
+		for (let n = first; n <= lineAt(block.to - 1); n++) skipped.add(n);
+	}
+	return skipped;
+}
+
+/** True when line `lineNum` of the editor is part of a Markdown table. */
+function isEditorTableRow(editor: LineEditor, lineNum: number): boolean {
+	const lineCount = editor.lineCount();
+	return isTableRow((n) => (n >= 0 && n < lineCount ? editor.getLine(n) : null), lineNum);
+}
+
+/**
+ * A piece of the selection the toggle edits on its own: `base` is the text
+ * it is confined to (a whole line, or one table cell without its padding)
+ * and [from, to) the selected part of it, both as line offsets.
+ */
+interface Segment {
+	line: number;
+	base: Interval;
+	from: number;
+	to: number;
+}
+
+/**
+ * Splits [selFrom, selTo] into segments, one per line, confined to the
+ * line's prose: list markers, checkboxes, quote markers, callout headers and
+ * heading hashes stay outside the marks, and code, math and frontmatter
+ * lines are skipped. In a table each selected cell is its own segment:
+ * marks never wrap a pipe, and the `|---|` delimiter row is left alone.
+ * Empty slices are skipped.
+ */
+function getSelectionSegments(editor: LineEditor, selFrom: EditorPosition, selTo: EditorPosition): Segment[] {
+	const segments: Segment[] = [];
+	const nonProse = selFrom.line === selTo.line ? new Set<number>() : findNonProseLines(editor);
+	for (let i = selFrom.line; i <= selTo.line; i++) {
+		const line = editor.getLine(i);
+		const slice = getLineSlice(line, i, selFrom, selTo);
+		if (slice.from >= slice.to || nonProse.has(i)) continue;
+		if (!isEditorTableRow(editor, i)) {
+			const base = getProseRange(line);
+			const from = Math.max(slice.from, base.from);
+			const to = Math.min(slice.to, base.to);
+			if (from < to) segments.push({ line: i, base, from, to });
+			continue;
+		}
+		if (isTableDelimiterRow(line)) continue;
+		for (const cell of splitTableCells(line)) {
+			let from = cell.from;
+			let to = cell.to;
+			while (from < to && WHITESPACE_RE.test(line[from])) from++;
+			while (to > from && WHITESPACE_RE.test(line[to - 1])) to--;
+			const base = { from, to };
+			from = Math.max(from, slice.from);
+			to = Math.min(to, slice.to);
+			if (from < to) segments.push({ line: i, base, from, to });
+		}
+	}
+	return segments;
+}
+
+/**
+ * Counts the selected non-whitespace characters across [selFrom, selTo] and
+ * how many of them are already underlined.
+ */
+export function countUnderlinedChars(
+	editor: LineEditor,
 	selFrom: EditorPosition,
 	selTo: EditorPosition,
+	syntax: UnderlineSyntax = UNDERSCORE_SYNTAX,
 ): { underlined: number; total: number } {
 	let underlined = 0;
 	let total = 0;
-	for (let i = selFrom.line; i <= selTo.line; i++) {
-		const line = editor.getLine(i);
-		const slice = getLineSlice(line, i, selFrom, selTo);
-		if (slice.from >= slice.to) continue; // skip empty slices
-		total++;
-		if (getUnderlineState(line, slice.from, slice.to).isUnderlined) {
-			underlined++;
-		}
+	for (const { line, base, from, to } of getSelectionSegments(editor, selFrom, selTo)) {
+		const text = editor.getLine(line).slice(base.from, base.to);
+		const coverage = lineCoverage(text, from - base.from, to - base.from, syntax);
+		underlined += coverage.underlined;
+		total += coverage.total;
 	}
 	return { underlined, total };
 }
 
 /**
- * Applies multi-line underline toggle.
- * Smart majority: if strictly >50% of lines are underlined → remove all; else add to all.
- * Processes lines in reverse order so earlier line indices stay stable during edits.
- * Each line's selected slice is wrapped/unwrapped independently.
+ * Applies multi-line underline toggle with the character-coverage rule: if
+ * every selected character is already underlined → remove the underline
+ * from the selection; otherwise → underline all of it. Each line's slice is
+ * split, extended or merged like a single-line partial toggle; in a table,
+ * each selected cell is handled on its own.
+ * Processes segments in reverse order so earlier offsets stay stable during edits.
+ * Returns the original selection adjusted for the inserted/removed marks.
  */
 export function applyMultiLineToggle(
-	editor: Editor,
+	editor: LineEditor,
 	selFrom: EditorPosition,
 	selTo: EditorPosition,
-): void {
-	const { underlined, total } = countUnderlinedLines(editor, selFrom, selTo);
-	const shouldRemove = underlined > total / 2;
+	syntax: UnderlineSyntax = UNDERSCORE_SYNTAX,
+): EditorSelection {
+	const { underlined, total } = countUnderlinedChars(editor, selFrom, selTo, syntax);
+	const underline = underlined < total;
+	let anchorCh = selFrom.ch;
+	let headCh = selTo.ch;
 
-	// Reverse order: modify last lines first so earlier line offsets remain valid
-	for (let i = selTo.line; i >= selFrom.line; i--) {
+	// Reverse order: modify last segments first so earlier offsets remain valid
+	const segments = getSelectionSegments(editor, selFrom, selTo);
+	for (let k = segments.length - 1; k >= 0; k--) {
+		const { line: i, base, from, to } = segments[k];
 		const line = editor.getLine(i);
-		const slice = getLineSlice(line, i, selFrom, selTo);
-		if (slice.from >= slice.to) continue;
+		const text = line.slice(base.from, base.to);
+		const result = setUnderline(text, from - base.from, to - base.from, underline, syntax);
+		if (!result || result.text === text) continue;
+		replaceLine(editor, i, line, line.slice(0, base.from) + result.text + line.slice(base.to));
+		if (i === selTo.line) {
+			// A cell further left on the last line shifts the head set by the last segment
+			const delta = result.text.length - text.length;
+			headCh = k === segments.length - 1 ? base.from + result.to : headCh + delta;
+		}
+		if (k === 0 && i === selFrom.line) anchorCh = base.from + result.from;
+	}
 
-		const state = getUnderlineState(line, slice.from, slice.to);
-		const content = line.slice(state.contentFrom, state.contentTo);
+	return {
+		anchor: { line: selFrom.line, ch: Math.min(anchorCh, editor.getLine(selFrom.line).length) },
+		head: { line: selTo.line, ch: headCh },
+	};
+}
 
-		if (shouldRemove && state.isUnderlined) {
-			editor.replaceRange(
-				content,
-				{ line: i, ch: state.markFrom },
-				{ line: i, ch: state.markTo },
-			);
-		} else if (!shouldRemove && !state.isUnderlined) {
-			editor.replaceRange(
-				`_${content}_`,
-				{ line: i, ch: slice.from },
-				{ line: i, ch: slice.to },
-			);
-		}
+/**
+ * Applies underline toggle to a multi-line selection as one span: a single
+ * opening mark before the first selected character and one closing mark
+ * after the last, the way CommonMark pairs emphasis across soft line breaks.
+ * Removal recognises the same two cases as getUnderlineState (marks inside
+ * or just outside the selection), with the same `__` guards, but on the
+ * first and last lines. When adding, the span is trimmed of whitespace and
+ * widened to whole words, and nothing changes if the tokenizer wouldn't
+ * read the result back as one underline. Returns the selection covering
+ * the content.
+ */
+export function applySpanToggle(
+	editor: LineEditor,
+	selFrom: EditorPosition,
+	selTo: EditorPosition,
+	syntax: UnderlineSyntax = UNDERSCORE_SYNTAX,
+): EditorSelection {
+	const { open, close } = syntax;
+	const first = editor.getLine(selFrom.line);
+	const last = editor.getLine(selTo.line);
+	const runChar = delimiterRunChar(syntax);
+	const notRun = (ch: string | undefined) => runChar === null || ch !== runChar;
+	const at = (line: number, ch: number): EditorPosition => ({ line, ch });
+
+	// Case 1: selection includes the marks
+	if (
+		first.startsWith(open, selFrom.ch) && notRun(first[selFrom.ch + open.length]) &&
+		selTo.ch >= close.length &&
+		last.startsWith(close, selTo.ch - close.length) && notRun(last[selTo.ch - close.length - 1])
+	) {
+		editor.replaceRange("", at(selTo.line, selTo.ch - close.length), selTo);
+		editor.replaceRange("", selFrom, at(selFrom.line, selFrom.ch + open.length));
+		return { anchor: selFrom, head: at(selTo.line, selTo.ch - close.length) };
 	}
+
+	// Case 2: selection excludes the marks
+	if (
+		selFrom.ch >= open.length &&
+		first.startsWith(open, selFrom.ch - open.length) && notRun(first[selFrom.ch - open.length - 1]) &&
+		last.startsWith(close, selTo.ch) && notRun(last[selTo.ch + close.length])
+	) {
+		editor.replaceRange("", selTo, at(selTo.line, selTo.ch + close.length));
+		editor.replaceRange("", at(selFrom.line, selFrom.ch - open.length), selFrom);
+		return { anchor: at(selFrom.line, selFrom.ch - open.length), head: selTo };
+	}
+
+	// Adding: like the per-line path, the span never starts or ends with
+	// whitespace, covers whole words and must read back as an underline
+	const lines: string[] = [];
+	for (let i = selFrom.line; i <= selTo.line; i++) lines.push(editor.getLine(i));
+	const text = lines.join("\n");
+	const offsetOf = (pos: EditorPosition) =>
+		lines.slice(0, pos.line - selFrom.line).reduce((sum, line) => sum + line.length + 1, 0) + pos.ch;
+	const positionOf = (offset: number): EditorPosition => {
+		const before = text.slice(0, offset).split("\n");
+		return at(selFrom.line + before.length - 1, before[before.length - 1].length);
+	};
+	let from = offsetOf(selFrom);
+	let to = offsetOf(selTo);
+	while (from < to && WHITESPACE_RE.test(text[from])) from++;
+	while (to > from && WHITESPACE_RE.test(text[to - 1])) to--;
+	if (from === to) return { anchor: selFrom, head: selTo };
+	({ from, to } = coverageRange(text, from, to, syntax));
+
+	const wrapped = text.slice(0, from) + open + text.slice(from, to) + close + text.slice(to);
+	const contentFrom = from + open.length;
+	const contentTo = to + open.length;
+	// Formatting markers may end up between the marks and the content: `__a` → `___a`
+	const readsBack = findSyntaxSpans(wrapped, syntax).some(
+		(span) =>
+			span.from + open.length <= contentFrom &&
+			contentTo <= span.to - close.length &&
+			MARKER_CHARS_RE.test(wrapped.slice(span.from + open.length, contentFrom)) &&
+			MARKER_CHARS_RE.test(wrapped.slice(contentTo, span.to - close.length)),
+	);
+	if (!readsBack) return { anchor: selFrom, head: selTo };
+
+	// Closing mark first so the opening position stays valid
+	editor.replaceRange(close, positionOf(to));
+	editor.replaceRange(open, positionOf(from));
+	const start = positionOf(from);
+	const end = positionOf(to);
+	return {
+		anchor: at(start.line, start.ch + open.length),
+		head: at(end.line, end.line === start.line ? end.ch + open.length : end.ch),
+	};
+}
+
+/** Orders two positions so that the first is not after the second. */
+function orderPositions(a: EditorPosition, b: EditorPosition): [EditorPosition, EditorPosition] {
+	if (a.line < b.line || (a.line === b.line && a.ch <= b.ch)) return [a, b];
+	return [b, a];
 }
 
 /**
- * Main command handler — dispatches to the correct mode:
- *   Mode 1 (no selection): detect word at cursor → resolve to Mode 2
- *   Mode 2 (single-line): toggle underline on the selected/detected range
- *   Mode 3 (multi-line): toggle underline per-line with smart majority
+ * Resolves a selection to the range the toggle acts on:
+ *   Mode 1 (no selection): the word at the cursor, or the empty cursor itself
+ *   Mode 2/3 (selection): the selection unchanged
  */
-export function toggleUnderlineCommand(editor: Editor): void {
-	const from = editor.getCursor("from") as EditorPosition;
-	const to = editor.getCursor("to") as EditorPosition;
-	const hasSelection = from.line !== to.line || from.ch !== to.ch;
+function resolveToggleRange(
+	editor: Editor,
+	selection: EditorSelection,
+): { from: EditorPosition; to: EditorPosition } {
+	const [from, to] = orderPositions(selection.anchor, selection.head);
+	if (from.line !== to.line || from.ch !== to.ch) {
+		return { from, to };
+	}
+	const word = detectWordRange(editor.getLine(from.line), from.ch);
+	if (word.from === word.to) {
+		return { from, to };
+	}
+	return {
+		from: { line: from.line, ch: word.from },
+		to: { line: from.line, ch: word.to },
+	};
+}
+
+/**
+ * Whether the main selection is underlined with `syntax`: for a cursor, the
+ * word under it or the span around it; for a selection, all of its text.
+ * Drives the editor menu's checked state and the status bar.
+ */
+export function isSelectionUnderlined(editor: Editor, syntax: UnderlineSyntax = UNDERSCORE_SYNTAX): boolean {
+	const { from, to } = resolveToggleRange(editor, {
+		anchor: editor.getCursor("anchor"),
+		head: editor.getCursor("head"),
+	});
+	if (from.line !== to.line) {
+		const { underlined, total } = countUnderlinedChars(editor, from, to, syntax);
+		return total > 0 && underlined === total;
+	}
+	const line = editor.getLine(from.line);
+	if (getUnderlineState(line, from.ch, to.ch, syntax).isUnderlined) return true;
+	return findSyntaxSpans(line, syntax).some(
+		(s) => s.from + syntax.open.length <= from.ch && to.ch <= s.to - syntax.close.length,
+	);
+}
 
-	if (!hasSelection) {
-		// Mode 1: no selection — expand to word at cursor
+export interface ToggleOptions {
+	/**
+	 * How multi-line selections are wrapped: one span per line (smart majority)
+	 * or one span around the whole selection, crossing soft line breaks.
+	 */
+	multiLine: "per-line" | "single-span";
+	/** The marks to insert and remove. */
+	syntax: UnderlineSyntax;
+}
+
+export const DEFAULT_TOGGLE_OPTIONS: ToggleOptions = {
+	multiLine: "per-line",
+	syntax: UNDERSCORE_SYNTAX,
+};
+
+/** The cell of a table row that contains all of [from, to), if any. */
+function findEnclosingCell(line: string, from: number, to: number): Interval | undefined {
+	return splitTableCells(line).find((cell) => cell.from <= from && to <= cell.to);
+}
+
+/**
+ * True when one span can't cover [from, to]: a blank line, a new block
+ * (list item, new quote, heading, rule, fence) or a heading's end lies
+ * within it, or it starts inside the first line's block prefix.
+ */
+function crossesBlockBoundary(editor: LineEditor, from: EditorPosition, to: EditorPosition): boolean {
+	const first = editor.getLine(from.line);
+	if (first.trim() === "" || from.ch < getProseRange(first).from) return true;
+	for (let i = from.line + 1; i <= to.line; i++) {
+		if (!continuesParagraph(editor.getLine(i - 1), editor.getLine(i))) return true;
+	}
+	return false;
+}
+
+/**
+ * Toggles one resolved range and returns the selection that should follow it.
+ *   Empty range: insert an empty pair of marks ("__") with the cursor
+ *   between, or remove an empty pair
+ *   Mode 2 (single-line): toggle underline on the selected/detected range;
+ *   in a table, within its cell, or per cell when it spans several
+ *   Mode 3 (multi-line): toggle underline per-line with smart majority, or as
+ *   one span when configured — unless that span would cross a block
+ *   boundary or involve a table
+ */
+function toggleRange(
+	editor: LineEditor,
+	from: EditorPosition,
+	to: EditorPosition,
+	options: ToggleOptions,
+): EditorSelection {
+	const { open, close } = options.syntax;
+	if (from.line === to.line && from.ch === to.ch) {
 		const line = editor.getLine(from.line);
-		const word = detectWordRange(line, from.ch);
-		
-		if (word.from === word.to) {
-			// Check if we are sitting exactly between two empty underscores: __
-			if (from.ch > 0 && from.ch < line.length && line[from.ch - 1] === "_" && line[from.ch] === "_") {
-				editor.replaceRange("", { line: from.line, ch: from.ch - 1 }, { line: from.line, ch: from.ch + 1 });
-				return;
-			}
-
-			// cursor on whitespace or no word: insert "__" and place cursor in the middle
-			editor.replaceSelection("__");
-			editor.setCursor({ line: from.line, ch: from.ch + 1 });
-			return;
+		// Check if we are sitting exactly between an empty pair of marks: __
+		if (
+			from.ch >= open.length &&
+			line.startsWith(open, from.ch - open.length) &&
+			line.startsWith(close, from.ch)
+		) {
+			editor.replaceRange(
+				"",
+				{ line: from.line, ch: from.ch - open.length },
+				{ line: from.line, ch: from.ch + close.length },
+			);
+			const cursor = { line: from.line, ch: from.ch - open.length };
+			return { anchor: cursor, head: cursor };
 		}
-		applySingleLineToggle(editor, from.line, word.from, word.to);
-		return;
+
+		// cursor on whitespace or no word: insert the pair and place cursor in the middle
+		editor.replaceRange(open + close, from, from);
+		const cursor = { line: from.line, ch: from.ch + open.length };
+		return { anchor: cursor, head: cursor };
 	}
 
+	const inTable = (line: number) => isEditorTableRow(editor, line);
 	if (from.line === to.line) {
-		// Mode 2: single-line selection
-		applySingleLineToggle(editor, from.line, from.ch, to.ch);
-		return;
+		const line = editor.getLine(from.line);
+		const cell = inTable(from.line) ? findEnclosingCell(line, from.ch, to.ch) : undefined;
+		if (inTable(from.line) && (!cell || isTableDelimiterRow(line))) {
+			// Across several cells: underline each one separately
+			return applyMultiLineToggle(editor, from, to, options.syntax);
+		}
+		return (
+			toggleSingleLine(editor, from.line, from.ch, to.ch, options.syntax, cell) ??
+			{ anchor: from, head: to }
+		);
+	}
+
+	// A span can't cross from one table row or cell into another
+	const touchesTable = inTable(from.line) || inTable(to.line);
+	if (
+		options.multiLine === "single-span" &&
+		!touchesTable &&
+		!crossesBlockBoundary(editor, from, to)
+	) {
+		return applySpanToggle(editor, from, to, options.syntax);
+	}
+
+	return applyMultiLineToggle(editor, from, to, options.syntax);
+}
+
+/**
+ * Main command handler — toggles every selection/cursor independently, the
+ * way native bold does with multiple cursors, as one transaction so a
+ * single undo reverts all of it.
+ *
+ * Ranges are processed from the bottom of the document up, so edits never
+ * move text that a not-yet-processed range points at. Edits only change text
+ * within lines (never the line count), so the only adjustment needed is for
+ * already-computed selections further along the same line: they shift by
+ * that line's change in length.
+ */
+export function toggleUnderlineCommand(
+	editor: Editor,
+	overrides: Partial<ToggleOptions> = {},
+): void {
+	const options = { ...DEFAULT_TOGGLE_OPTIONS, ...overrides };
+	const ranges: Array<{ from: EditorPosition; to: EditorPosition }> = [];
+	for (const selection of editor.listSelections()) {
+		const range = resolveToggleRange(editor, selection);
+		// Several cursors inside one word resolve to the same range — toggle it once
+		const duplicate = ranges.some(
+			(r) =>
+				r.from.line === range.from.line && r.from.ch === range.from.ch &&
+				r.to.line === range.to.line && r.to.ch === range.to.ch,
+		);
+		if (!duplicate) ranges.push(range);
+	}
+	ranges.sort((a, b) => b.from.line - a.from.line || b.from.ch - a.from.ch);
+
+	const buffer = new LineBuffer(editor);
+	const results: EditorSelection[] = [];
+	for (const { from, to } of ranges) {
+		const lineLength = buffer.getLine(to.line).length;
+		const result = toggleRange(buffer, from, to, options);
+		const delta = buffer.getLine(to.line).length - lineLength;
+		for (const later of results) {
+			if (later.anchor.line === to.line) later.anchor = { line: to.line, ch: later.anchor.ch + delta };
+			if (later.head.line === to.line) later.head = { line: to.line, ch: later.head.ch + delta };
+		}
+		results.push(result);
 	}
 
-	// Mode 3: multi-line selection
-	applyMultiLineToggle(editor, from, to);
+	editor.transaction({
+		changes: buffer.changes(),
+		selections: results.reverse().map(({ anchor, head }) => ({ from: anchor, to: head })),
+	});
 }
@@ -0,0 +1,511 @@
+/**
+ * CommonMark emphasis tokenizer shared by the editor decorations and the
+ * reading-mode classifier, so both views agree on what counts as `_..._`.
+ *
+ * Implements the delimiter-run rules from the CommonMark spec (§6.2):
+ * left/right flanking, the intraword restriction for `_`, the "rule of 3",
+ * backslash escapes and nesting via the process-emphasis algorithm.
+ * Code spans, math, links and bare URLs are inert: delimiters inside them
+ * never pair with anything.
+ */
+
+export interface EmphasisSpan {
+	from: number;          // offset of the opening delimiter(s)
+	to: number;            // offset just past the closing delimiter(s)
+	delimiter: "_" | "*";
+	strong: boolean;       // two-character delimiters (__ / **) rather than one
+}
+
+interface Delimiter {
+	char: "_" | "*";
+	pos: number;           // offset of the first delimiter char still unused
+	length: number;        // delimiter chars still unused
+	origLength: number;
+	canOpen: boolean;
+	canClose: boolean;
+}
+
+// Stands in for delimiter and escape characters inside skipped ranges.
+// It is neither whitespace nor punctuation, so flanking around a skipped
+// range behaves as if the range were ordinary text.
+const MASK_CHAR = "\u0000";
+
+const ASCII_PUNCTUATION_RE = /[!-/:-@[-`{-~]/;
+const PUNCTUATION_RE = /[\p{P}\p{S}]/u;
+const WHITESPACE_RE = /\s/;
+
+// Lines that start a new block and therefore end the preceding paragraph
+const BLOCK_START_RE = /^\s*(?:#{1,6}(?:\s|$)|[-*+]\s|\d+[.)]\s|>|```|~~~|\||\$\$)/;
+// ATX headings and thematic breaks: blocks of exactly one line
+const SINGLE_LINE_BLOCK_RE = /^ {0,3}(?:#{1,6}(?:[ \t]|$)|([-*_])(?:[ \t]*\1){2,}[ \t]*$)/;
+// A blockquote's `>` markers, each with its optional space
+const QUOTE_PREFIX_RE = /^(?: {0,3}>[ \t]?)+/;
+
+/** The length of a line's blockquote markers (`> `, `> > `), 0 outside a quote. */
+function quotePrefixLength(line: string): number {
+	return QUOTE_PREFIX_RE.exec(line)?.[0].length ?? 0;
+}
+
+function quoteDepth(line: string): number {
+	return line.slice(0, quotePrefixLength(line)).split(">").length - 1;
+}
+
+/**
+ * A line as paragraph text: its blockquote markers become spaces, so a
+ * quoted paragraph tokenizes like an unquoted one. Offsets are preserved.
+ */
+export function blankQuotePrefix(line: string): string {
+	const length = quotePrefixLength(line);
+	return length === 0 ? line : " ".repeat(length) + line.slice(length);
+}
+
+/** True for an ATX heading or a thematic break, inside a quote or not. */
+function isSingleLineBlock(line: string): boolean {
+	return SINGLE_LINE_BLOCK_RE.test(line.slice(quotePrefixLength(line)));
+}
+
+/**
+ * True when `line` continues the paragraph whose last line is `previous`:
+ * neither is blank or a heading or rule, `line` doesn't start a new block,
+ * and a quoted line stays at the quote depth of the line before it. An
+ * unquoted line after a quoted one continues it lazily, as in CommonMark.
+ */
+export function continuesParagraph(previous: string, line: string): boolean {
+	const content = line.slice(quotePrefixLength(line));
+	if (previous.slice(quotePrefixLength(previous)).trim() === "" || content.trim() === "") return false;
+	if (isSingleLineBlock(previous) || isSingleLineBlock(line)) return false;
+	const depth = quoteDepth(line);
+	if (depth > 0) return depth === quoteDepth(previous) && !BLOCK_START_RE.test(content);
+	return !BLOCK_START_RE.test(line);
+}
+
+const TABLE_DELIMITER_ROW_RE = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/** True for a table's `| --- | :---: |` delimiter row. */
+export function isTableDelimiterRow(line: string): boolean {
+	return line.includes("-") && TABLE_DELIMITER_ROW_RE.test(line);
+}
+
+/** Offsets of the unescaped `|` characters in a line. */
+function findPipes(line: string): number[] {
+	const pipes: number[] = [];
+	for (let i = 0; i < line.length; i++) {
+		if (line[i] === "\\") i++;
+		else if (line[i] === "|") pipes.push(i);
+	}
+	return pipes;
+}
+
+/**
+ * Content ranges of a table row's cells, between unescaped pipes; the
+ * leading and trailing pipes are not part of any cell. Ranges include the
+ * padding whitespace.
+ */
+export function splitTableCells(line: string): Array<{ from: number; to: number }> {
+	const pipes = findPipes(line);
+	const bounds = [...pipes];
+	if (line.slice(0, pipes[0] ?? 0).trim() !== "") bounds.unshift(-1);
+	const last = pipes[pipes.length - 1] ?? line.length;
+	if (line.slice(last + 1).trim() !== "") bounds.push(line.length);
+	const cells: Array<{ from: number; to: number }> = [];
+	for (let i = 0; i + 1 < bounds.length; i++) {
+		cells.push({ from: bounds[i] + 1, to: bounds[i + 1] });
+	}
+	return cells;
+}
+
+/**
+ * True when line `n` is a row of a table (header, delimiter or body row):
+ * it has an unescaped pipe, and a delimiter row follows it directly or
+ * precedes it within the same run of pipe-containing lines.
+ * `getLine` returns null past either end of the document.
+ */
+export function isTableRow(getLine: (n: number) => string | null, n: number): boolean {
+	return findTableRows(getLine, n, n + 1)[0];
+}
+
+/**
+ * isTableRow for every line in [from, to), in one forward pass: only the run
+ * of pipe-containing lines just above `from` is walked back, once, so a long
+ * table costs time linear in its rows.
+ */
+export function findTableRows(getLine: (n: number) => string | null, from: number, to: number): boolean[] {
+	const hasPipe = (line: string | null): line is string => line !== null && findPipes(line).length > 0;
+	let afterDelimiter = false;
+	for (let i = from - 1; hasPipe(getLine(i)); i--) {
+		if (isTableDelimiterRow(getLine(i) ?? "")) {
+			afterDelimiter = true;
+			break;
+		}
+	}
+	const rows: boolean[] = [];
+	for (let n = from; n < to; n++) {
+		const line = getLine(n);
+		if (!hasPipe(line)) {
+			afterDelimiter = false;
+			rows.push(false);
+			continue;
+		}
+		if (isTableDelimiterRow(line)) afterDelimiter = true;
+		const next = getLine(n + 1);
+		rows.push(afterDelimiter || (next !== null && isTableDelimiterRow(next)));
+	}
+	return rows;
+}
+
+/**
+ * Splits text into paragraphs — the unit emphasis may span. A paragraph runs
+ * over soft line breaks until a blank line; a block-start line begins a new
+ * one, and headings and rules are paragraphs of one line. A blockquote's
+ * lines join into one paragraph with their `>` markers blanked. Each cell of
+ * a table row is a unit of its own, and delimiter rows are left out.
+ */
+export function splitParagraphs(text: string): Array<{ from: number; text: string }> {
+	const paragraphs: Array<{ from: number; text: string }> = [];
+	let current: { from: number; text: string } | null = null;
+	let offset = 0;
+	const lines = text.split("\n");
+	const tableRows = findTableRows((i) => lines[i] ?? null, 0, lines.length);
+	lines.forEach((line, n) => {
+		if (tableRows[n]) {
+			current = null;
+			if (!isTableDelimiterRow(line)) {
+				for (const cell of splitTableCells(line)) {
+					paragraphs.push({ from: offset + cell.from, text: line.slice(cell.from, cell.to) });
+				}
+			}
+		} else if (current !== null && continuesParagraph(lines[n - 1], line)) {
+			current.text += "\n" + blankQuotePrefix(line);
+		} else if (line.slice(quotePrefixLength(line)).trim() === "") {
+			current = null;
+		} else {
+			current = { from: offset, text: blankQuotePrefix(line) };
+			paragraphs.push(current);
+		}
+		offset += line.length + 1;
+	});
+	return paragraphs;
+}
+
+/** Replaces delimiter and escape characters in [from, to) so they become inert. */
+export function maskRange(text: string, from: number, to: number): string {
+	return (
+		text.slice(0, from) +
+		text.slice(from, to).replace(/[_*\\]/g, MASK_CHAR) +
+		text.slice(to)
+	);
+}
+
+/** Ranges of frontmatter, fenced code blocks and $$ math blocks, in order. */
+export function findSkippedBlocks(text: string): Array<{ from: number; to: number }> {
+	return Array.from(
+		text.matchAll(/^---\n[\s\S]*?\n---(?=\n|$)|```[\s\S]*?```|~~~[\s\S]*?~~~|\$\$[\s\S]*?\$\$/g),
+		(block) => ({ from: block.index ?? 0, to: (block.index ?? 0) + block[0].length }),
+	);
+}
+
+/** Masks frontmatter, fenced code blocks and $$ math blocks. Offsets are preserved. */
+export function maskSkippedBlocks(text: string): string {
+	let masked = text;
+	for (const block of findSkippedBlocks(text)) {
+		masked = maskRange(masked, block.from, block.to);
+	}
+	return masked;
+}
+
+/** Replaces every character of [from, to) except line breaks, for delimiters that aren't emphasis. */
+export function blankRange(text: string, from: number, to: number): string {
+	return text.slice(0, from) + blank(text.slice(from, to)) + text.slice(to);
+}
+
+function blank(text: string): string {
+	return text.replace(/[^\n]/g, MASK_CHAR);
+}
+
+/**
+ * Code spans per CommonMark: a backtick run not escaped by a backslash,
+ * closed by the next run of exactly the same length. A run with no closer
+ * is literal text.
+ */
+function findCodeSpans(text: string): Array<{ from: number; to: number }> {
+	const spans: Array<{ from: number; to: number }> = [];
+	const runLength = (at: number) => {
+		let end = at;
+		while (text[end] === "`") end++;
+		return end - at;
+	};
+	let i = 0;
+	while (i < text.length) {
+		if (text[i] === "\\") {
+			i += 2; // an escaped backtick can't open a span
+			continue;
+		}
+		if (text[i] !== "`") {
+			i++;
+			continue;
+		}
+		const length = runLength(i);
+		let close = i + length;
+		while (close < text.length && !(text[close] === "`" && runLength(close) === length)) {
+			close += text[close] === "`" ? runLength(close) : 1;
+		}
+		if (close < text.length) {
+			spans.push({ from: i, to: close + length });
+			i = close + length;
+		} else {
+			i += length;
+		}
+	}
+	return spans;
+}
+
+// Inline constructs besides code spans whose content is never emphasis, in precedence order
+const SKIPPED_INLINE_RES = [
+	/\$\$[\s\S]*?\$\$/g,
+	/\$[^$\n]*?\$/g,
+	/\[\[[\s\S]*?\]\]/g, // internal links
+	/!?\[[^\]]*?\]\([^)]*?\)/g, // external links and images
+	/(?<!\()https?:\/\/[^\s]+/g, // bare URLs (not link targets)
+];
+
+/**
+ * Ranges of inline code spans, math, links and bare URLs, sorted by position.
+ * An earlier construct wins where two overlap, so a link inside a code span
+ * is not a link.
+ */
+export function findSkippedInlineRanges(text: string): Array<{ from: number; to: number }> {
+	const ranges = findCodeSpans(text);
+	let scan = text;
+	for (const range of ranges) {
+		scan = blankRange(scan, range.from, range.to);
+	}
+	for (const re of SKIPPED_INLINE_RES) {
+		const found = Array.from(scan.matchAll(re), (m) => ({
+			from: m.index ?? 0,
+			to: (m.index ?? 0) + m[0].length,
+		}));
+		for (const range of found) {
+			scan = blankRange(scan, range.from, range.to);
+		}
+		ranges.push(...found);
+	}
+	return ranges.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Masks inline code spans, math, links and bare URLs — by default only their
+ * delimiter and escape characters, so flanking around them is unchanged.
+ */
+function maskSkippedInline(
+	text: string,
+	mask = (m: string) => m.replace(/[_*\\]/g, MASK_CHAR),
+): string {
+	let masked = text;
+	for (const { from, to } of findSkippedInlineRanges(text)) {
+		masked = masked.slice(0, from) + mask(masked.slice(from, to)) + masked.slice(to);
+	}
+	return masked;
+}
+
+function isWhitespace(ch: string | undefined): boolean {
+	return ch === undefined || WHITESPACE_RE.test(ch); // line edges count as whitespace
+}
+
+function isPunctuation(ch: string | undefined): boolean {
+	return ch !== undefined && PUNCTUATION_RE.test(ch);
+}
+
+/** Collects delimiter runs, skipping backslash-escaped characters. */
+function scanDelimiters(text: string): Delimiter[] {
+	const delimiters: Delimiter[] = [];
+	let i = 0;
+	while (i < text.length) {
+		const ch = text[i];
+		if (ch === "\\" && i + 1 < text.length && ASCII_PUNCTUATION_RE.test(text[i + 1])) {
+			i += 2;
+			continue;
+		}
+		if (ch !== "_" && ch !== "*") {
+			i++;
+			continue;
+		}
+
+		let end = i;
+		while (text[end] === ch) end++;
+		const before = text[i - 1];
+		const after = text[end];
+
+		const leftFlanking =
+			!isWhitespace(after) &&
+			(!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+		const rightFlanking =
+			!isWhitespace(before) &&
+			(!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+
+		let canOpen = leftFlanking;
+		let canClose = rightFlanking;
+		if (ch === "_") {
+			// Intraword underscores never open or close (snake_case_identifier)
+			canOpen = leftFlanking && (!rightFlanking || isPunctuation(before));
+			canClose = rightFlanking && (!leftFlanking || isPunctuation(after));
+		}
+
+		delimiters.push({
+			char: ch,
+			pos: i,
+			length: end - i,
+			origLength: end - i,
+			canOpen,
+			canClose,
+		});
+		i = end;
+	}
+	return delimiters;
+}
+
+/**
+ * Tokenizes one paragraph and returns its emphasis spans ordered by opening
+ * position, outer spans before the spans they contain (document pre-order,
+ * matching the order of the rendered <em>/<strong> elements).
+ */
+export function tokenizeEmphasis(text: string): EmphasisSpan[] {
+	const stack = scanDelimiters(maskSkippedInline(text));
+	const spans: EmphasisSpan[] = [];
+
+	let closerIndex = 0;
+	while (closerIndex < stack.length) {
+		const closer = stack[closerIndex];
+		if (!closer.canClose) {
+			closerIndex++;
+			continue;
+		}
+
+		let openerIndex = -1;
+		for (let j = closerIndex - 1; j >= 0; j--) {
+			const opener = stack[j];
+			if (opener.char !== closer.char || !opener.canOpen) continue;
+			// Rule of 3: a run that can both open and close can't pair with one
+			// whose combined length is a multiple of 3, unless both are
+			const oddMatch =
+				(opener.canClose || closer.canOpen) &&
+				(opener.origLength + closer.origLength) % 3 === 0 &&
+				!(opener.origLength % 3 === 0 && closer.origLength % 3 === 0);
+			if (!oddMatch) {
+				openerIndex = j;
+				break;
+			}
+		}
+
+		if (openerIndex === -1) {
+			if (!closer.canOpen) {
+				stack.splice(closerIndex, 1);
+			} else {
+				closerIndex++;
+			}
+			continue;
+		}
+
+		const opener = stack[openerIndex];
+		const used = opener.length >= 2 && closer.length >= 2 ? 2 : 1;
+		opener.length -= used;
+		spans.push({
+			from: opener.pos + opener.length, // innermost chars of the opener
+			to: closer.pos + used,
+			delimiter: closer.char,
+			strong: used === 2,
+		});
+		closer.pos += used;
+		closer.length -= used;
+
+		// Delimiters between the pair can no longer match anything
+		stack.splice(openerIndex + 1, closerIndex - openerIndex - 1);
+		closerIndex = openerIndex + 1;
+		if (opener.length === 0) {
+			stack.splice(openerIndex, 1);
+			closerIndex--;
+		}
+		if (closer.length === 0) {
+			stack.splice(closerIndex, 1);
+		}
+	}
+
+	return spans.sort((a, b) => a.from - b.from || b.to - a.to);
+}
+
+/**
+ * Finds spans of a literal open/close delimiter pair such as `++text++` or
+ * `<u>text</u>`. Simpler than emphasis: the opener must be followed and the
+ * closer preceded by non-whitespace, spans don't nest, and delimiters that
+ * are backslash-escaped or inside code, math and links are ignored.
+ */
+export function tokenizeDelimited(
+	text: string,
+	open: string,
+	close: string,
+): Array<{ from: number; to: number }> {
+	const masked = maskSkippedInline(text, blank);
+	const spans: Array<{ from: number; to: number }> = [];
+	const isEscaped = (pos: number) => masked[pos - 1] === "\\";
+
+	let from = masked.indexOf(open);
+	while (from !== -1) {
+		const contentFrom = from + open.length;
+		if (isEscaped(from) || isWhitespace(masked[contentFrom])) {
+			from = masked.indexOf(open, from + 1);
+			continue;
+		}
+		// Content is never empty, so the closer search starts one character in
+		let closeAt = masked.indexOf(close, contentFrom + 1);
+		while (closeAt !== -1 && (isEscaped(closeAt) || isWhitespace(masked[closeAt - 1]))) {
+			closeAt = masked.indexOf(close, closeAt + 1);
+		}
+		if (closeAt === -1) break;
+		spans.push({ from, to: closeAt + close.length });
+		from = masked.indexOf(open, closeAt + close.length);
+	}
+	return spans;
+}
+
+/**
+ * Finds every emphasis span in a whole markdown document, skipping
+ * frontmatter, fenced code and math blocks. Offsets are document offsets.
+ */
+export function findEmphasisSpans(markdown: string): EmphasisSpan[] {
+	const spans: EmphasisSpan[] = [];
+	for (const paragraph of splitParagraphs(maskSkippedBlocks(markdown))) {
+		for (const span of tokenizeEmphasis(paragraph.text)) {
+			spans.push({ ...span, from: paragraph.from + span.from, to: paragraph.from + span.to });
+		}
+	}
+	return spans;
+}
+
+/**
+ * Finds every underline span — single-underscore emphasis — in a whole
+ * markdown document, with the same skip rules as the editor and reading mode.
+ * Offsets are document offsets; `from`/`to` include the `_` marks.
+ */
+export function findUnderlineSpans(markdown: string): Array<{ from: number; to: number }> {
+	return findEmphasisSpans(markdown)
+		.filter((span) => span.delimiter === "_" && !span.strong)
+		.map(({ from, to }) => ({ from, to }));
+}
+
+/**
+ * Finds every span of a literal delimiter pair (`++`, `<u>`…`</u>`) in a
+ * whole markdown document, paragraph by paragraph, skipping frontmatter,
+ * fenced code and math blocks. Offsets are document offsets.
+ */
+export function findDelimitedSpans(
+	markdown: string,
+	open: string,
+	close: string,
+): Array<{ from: number; to: number }> {
+	const spans: Array<{ from: number; to: number }> = [];
+	for (const paragraph of splitParagraphs(maskSkippedBlocks(markdown))) {
+		for (const span of tokenizeDelimited(paragraph.text, open, close)) {
+			spans.push({ from: paragraph.from + span.from, to: paragraph.from + span.to });
+		}
+	}
+	return spans;
+}
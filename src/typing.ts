@@ -0,0 +1,160 @@
+/**
+ * Typing `_` in the editor: with a selection it toggles an underline around
+ * the selection instead of replacing it, right before an auto-inserted
+ * closing mark it types over the mark, and Backspace inside an empty `__`
+ * pair deletes both marks. Each behavior can be turned off in settings.
+ */
+
+import { syntaxTree } from "@codemirror/language";
+import {
+	EditorSelection,
+	EditorState,
+	Extension,
+	Prec,
+	RangeSet,
+	RangeValue,
+	StateField,
+} from "@codemirror/state";
+import { EditorView, keymap } from "@codemirror/view";
+import type { Editor } from "obsidian";
+import { underlineSyntaxes } from "./editor-decoration";
+import { applySingleLineToggle } from "./toggle-command";
+
+export interface TypingOptions {
+	wrapSelection: boolean; // `_` with a selection toggles an underline around it
+	overtype: boolean;      // `_` before an auto-inserted closing mark moves past it
+	deletePair: boolean;    // Backspace inside an empty `__` deletes both marks
+}
+
+const MARK = "_";
+const WORD_CHAR_RE = /[\p{L}\p{N}]/u;
+
+// `_` typed in these nodes is text, never a mark
+const LITERAL_NODE_RE = /[Cc]ode|[Mm]ath/;
+
+class ClosingMark extends RangeValue {}
+const closingMark = new ClosingMark();
+
+/**
+ * Closing marks inserted together with their opener: the `__` the toggle
+ * command (or Obsidian's auto-pair) puts around the cursor. A mark is
+ * forgotten once it is deleted or the cursor leaves its line.
+ */
+const autoClosedMarks = StateField.define<RangeSet<ClosingMark>>({
+	create: () => RangeSet.empty,
+	update(marks, tr) {
+		const head = tr.newSelection.main.head;
+		const added: number[] = [];
+		tr.changes.iterChanges((_fromA, _toA, fromB, _toB, inserted) => {
+			if (inserted.toString() === MARK + MARK && tr.newSelection.main.empty && head === fromB + 1) {
+				added.push(head);
+			}
+		});
+		const doc = tr.state.doc;
+		const line = doc.lineAt(head);
+		return marks.map(tr.changes).update({
+			add: added.map((pos) => closingMark.range(pos, pos + 1)),
+			filter: (from, to) =>
+				to === from + 1 && doc.sliceString(from, to) === MARK && from >= line.from && to <= line.to,
+		});
+	},
+});
+
+function underscoreEnabled(state: EditorState): boolean {
+	return state.facet(underlineSyntaxes).some((syntax) => syntax.id === "underscore");
+}
+
+/** True inside code or math, where `_` is literal. */
+function inLiteralNode(state: EditorState, pos: number): boolean {
+	for (let node = syntaxTree(state).resolveInner(pos, -1); ; node = node.parent) {
+		if (LITERAL_NODE_RE.test(node.name)) return true;
+		if (!node.parent) return false;
+	}
+}
+
+function hasAutoClosedMark(state: EditorState, pos: number): boolean {
+	let found = false;
+	state.field(autoClosedMarks).between(pos, pos + 1, (from) => {
+		if (from === pos) found = true;
+	});
+	return found;
+}
+
+/** Toggles an underline around the only selection, when it lies on one line. */
+function wrapSelection(view: EditorView, editor: Editor): boolean {
+	const { ranges } = view.state.selection;
+	if (ranges.length !== 1 || ranges[0].empty) return false;
+	const { from, to } = ranges[0];
+	const line = view.state.doc.lineAt(from);
+	if (to > line.to || inLiteralNode(view.state, from)) return false;
+	applySingleLineToggle(editor, line.number - 1, from - line.from, to - line.from);
+	return true;
+}
+
+/** Moves the cursors past their auto-inserted closing marks, when every cursor is before one. */
+function overtypeMark(view: EditorView): boolean {
+	const { state } = view;
+	const { ranges, mainIndex } = state.selection;
+	if (!ranges.every((r) => r.empty && hasAutoClosedMark(state, r.head))) return false;
+	view.dispatch({
+		selection: EditorSelection.create(
+			ranges.map((r) => EditorSelection.cursor(r.head + 1)),
+			mainIndex,
+		),
+		scrollIntoView: true,
+		userEvent: "input.type",
+	});
+	return true;
+}
+
+/** Deletes the empty `__` pair around each cursor, when every cursor is in one. */
+function deleteEmptyPair(view: EditorView): boolean {
+	const { state } = view;
+	const isEmptyPair = (pos: number) => {
+		if (state.sliceDoc(pos - 1, pos + 1) !== MARK + MARK) return false;
+		const before = state.sliceDoc(pos - 2, pos - 1);
+		const after = state.sliceDoc(pos + 1, pos + 2);
+		// Part of a longer run (`___`) or inside a word (`snake__case`)
+		if (before === MARK || after === MARK) return false;
+		if (WORD_CHAR_RE.test(before) && WORD_CHAR_RE.test(after)) return false;
+		return !inLiteralNode(state, pos);
+	};
+	if (!underscoreEnabled(state) || !state.selection.ranges.every((r) => r.empty && isEmptyPair(r.head))) {
+		return false;
+	}
+	view.dispatch(
+		state.changeByRange((range) => ({
+			changes: { from: range.head - 1, to: range.head + 1 },
+			range: EditorSelection.cursor(range.head - 1),
+		})),
+		{ scrollIntoView: true, userEvent: "delete.backward" },
+	);
+	return true;
+}
+
+/**
+ * The typing behaviors that are turned on. `getEditor` returns the Obsidian
+ * editor of a view, which the selection wrap edits through so it shares the
+ * toggle command's rules.
+ */
+export function underscoreTyping(
+	options: TypingOptions,
+	getEditor: (view: EditorView) => Editor | null,
+): Extension {
+	const extensions: Extension[] = [autoClosedMarks];
+	if (options.wrapSelection || options.overtype) {
+		extensions.push(
+			EditorView.inputHandler.of((view, _from, _to, text) => {
+				if (text !== MARK || view.composing || !underscoreEnabled(view.state)) return false;
+				if (options.overtype && overtypeMark(view)) return true;
+				const editor = options.wrapSelection ? getEditor(view) : null;
+				return editor !== null && wrapSelection(view, editor);
+			}),
+		);
+	}
+	if (options.deletePair) {
+		// Ahead of the default Backspace, which would delete only the opening mark
+		extensions.push(Prec.high(keymap.of([{ key: "Backspace", run: deleteEmptyPair }])));
+	}
+	return extensions;
+}
@@ -0,0 +1,174 @@
+/**
+ * The underline list behind the side panel: every span of a note with its
+ * line, its heading and the line around it, and a vault-wide index of those
+ * lists. Spans are found with the shared tokenizer, so the list agrees with
+ * what the editor and reading view underline.
+ */
+
+import type { UnderlineSyntax } from "./syntax";
+import { findDelimitedSpans, findSkippedBlocks, findUnderlineSpans } from "./tokenizer";
+
+/** One underline span of a note. */
+export interface UnderlineEntry {
+	from: number;           // document offsets, marks included
+	to: number;
+	line: number;           // 1-based
+	text: string;           // the underlined text, without marks
+	context: string;        // its line, without list, task and quote markers
+	heading: string | null; // the nearest heading above it
+}
+
+/** The underlines of one note. */
+export interface NoteUnderlines {
+	path: string;
+	entries: UnderlineEntry[];
+}
+
+/** The entries under one heading, in document order. */
+export interface HeadingGroup {
+	heading: string | null; // null before the first heading
+	entries: UnderlineEntry[];
+}
+
+const HEADING_RE = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+// Leading quote, list and task markers, in any nesting
+const LINE_PREFIX_RE = /^(?:\s*(?:>|[-*+](?=\s)|\d+[.)](?=\s)|\[.\](?=\s)))+\s*/;
+
+/** Headings outside code, math and frontmatter, by offset. */
+function findHeadings(markdown: string): Array<{ from: number; text: string }> {
+	const skipped = findSkippedBlocks(markdown);
+	const headings: Array<{ from: number; text: string }> = [];
+	let offset = 0;
+	let block = 0; // the first skipped block not yet behind the line
+	for (const line of markdown.split("\n")) {
+		while (block < skipped.length && skipped[block].to <= offset) block++;
+		const match = HEADING_RE.exec(line);
+		if (match && !(block < skipped.length && skipped[block].from <= offset)) {
+			headings.push({ from: offset, text: match[2] });
+		}
+		offset += line.length + 1;
+	}
+	return headings;
+}
+
+/** Every underline span of every enabled syntax in a note, in document order. */
+export function findNoteUnderlines(markdown: string, syntaxes: UnderlineSyntax[]): UnderlineEntry[] {
+	const spans: Array<{ from: number; to: number; open: number; close: number }> = [];
+	for (const syntax of syntaxes) {
+		const found =
+			syntax.id === "underscore"
+				? findUnderlineSpans(markdown)
+				: findDelimitedSpans(markdown, syntax.open, syntax.close);
+		for (const { from, to } of found) {
+			spans.push({ from, to, open: syntax.open.length, close: syntax.close.length });
+		}
+	}
+	spans.sort((a, b) => a.from - b.from);
+
+	// The spans are sorted, so the line and heading only ever move forward
+	const headings = findHeadings(markdown);
+	let next = 0;
+	let heading: string | null = null;
+	let line = 1;
+	let lineStart = 0;
+	return spans.map(({ from, to, open, close }) => {
+		let nl = markdown.indexOf("\n", lineStart);
+		while (nl !== -1 && nl < from) {
+			lineStart = nl + 1;
+			line++;
+			nl = markdown.indexOf("\n", lineStart);
+		}
+		while (next < headings.length && headings[next].from <= from) heading = headings[next++].text;
+		const lineEnd = markdown.indexOf("\n", from);
+		return {
+			from,
+			to,
+			line,
+			text: markdown.slice(from + open, to - close),
+			context: markdown
+				.slice(lineStart, lineEnd === -1 ? markdown.length : lineEnd)
+				.replace(LINE_PREFIX_RE, "")
+				.trim(),
+			heading,
+		};
+	});
+}
+
+/** Consecutive entries under the same heading, grouped. */
+export function groupByHeading(entries: UnderlineEntry[]): HeadingGroup[] {
+	const groups: HeadingGroup[] = [];
+	for (const entry of entries) {
+		const last = groups[groups.length - 1];
+		if (last && last.heading === entry.heading) last.entries.push(entry);
+		else groups.push({ heading: entry.heading, entries: [entry] });
+	}
+	return groups;
+}
+
+/**
+ * The entries whose text, line, heading or note path contain every word of
+ * `query`, ignoring case. Notes left without entries are dropped.
+ */
+export function filterUnderlines(notes: NoteUnderlines[], query: string): NoteUnderlines[] {
+	const words = query.toLowerCase().split(/\s+/).filter((word) => word !== "");
+	if (words.length === 0) return notes;
+	return notes
+		.map(({ path, entries }) => ({
+			path,
+			entries: entries.filter((entry) => {
+				const haystack = [path, entry.text, entry.context, entry.heading ?? ""].join("\n").toLowerCase();
+				return words.every((word) => haystack.includes(word));
+			}),
+		}))
+		.filter((note) => note.entries.length > 0);
+}
+
+/** A note listing the underlines: a section per note, linked, and a bullet per line. */
+export function formatUnderlineList(notes: NoteUnderlines[], title: string): string {
+	const lines = [`# ${title}`];
+	for (const { path, entries } of notes) {
+		lines.push("", `## [[${path.replace(/\.md$/, "")}]]`);
+		for (const group of groupByHeading(entries)) {
+			if (group.heading !== null) lines.push("", `### ${group.heading}`);
+			lines.push("");
+			let previousLine = -1;
+			for (const entry of group.entries) {
+				// Several spans on one line share its bullet
+				if (entry.line === previousLine) continue;
+				previousLine = entry.line;
+				lines.push(`- ${entry.context}`);
+			}
+		}
+	}
+	return lines.join("\n") + "\n";
+}
+
+/**
+ * The underlines of every note in the vault, kept up to date by the plugin
+ * as notes change, move and are deleted.
+ */
+export class UnderlineIndex {
+	private notes = new Map<string, UnderlineEntry[]>();
+
+	/** Re-indexes one note from its text. */
+	set(path: string, markdown: string, syntaxes: UnderlineSyntax[]): void {
+		const entries = findNoteUnderlines(markdown, syntaxes);
+		if (entries.length > 0) this.notes.set(path, entries);
+		else this.notes.delete(path);
+	}
+
+	delete(path: string): void {
+		this.notes.delete(path);
+	}
+
+	clear(): void {
+		this.notes.clear();
+	}
+
+	/** Every indexed note with underlines, by path. */
+	list(): NoteUnderlines[] {
+		return Array.from(this.notes, ([path, entries]) => ({ path, entries })).sort((a, b) =>
+			a.path.localeCompare(b.path),
+		);
+	}
+}
@@ -0,0 +1,163 @@
+import {
+	DropdownComponent,
+	ItemView,
+	MarkdownView,
+	Notice,
+	SearchComponent,
+	TFile,
+	WorkspaceLeaf,
+	debounce,
+	normalizePath,
+} from "obsidian";
+import type UnderlinePlugin from "./main";
+import {
+	NoteUnderlines,
+	UnderlineEntry,
+	filterUnderlines,
+	findNoteUnderlines,
+	formatUnderlineList,
+	groupByHeading,
+} from "./underline-index";
+
+export const VIEW_TYPE_UNDERLINES = "underscore-underlines";
+
+type PanelScope = "note" | "vault";
+
+/**
+ * The side panel listing underlines, either of the active note (grouped by
+ * heading, updated as you type) or of the whole vault (from the plugin's
+ * index). Clicking an entry selects its span in the editor.
+ */
+export class UnderlinesView extends ItemView {
+	plugin: UnderlinePlugin;
+	private listScope: PanelScope = "note";
+	private query = "";
+	// The note listed in note scope: the last active one, so focusing the panel keeps it
+	private file: TFile | null = null;
+	private listed: NoteUnderlines[] = [];
+	private listEl!: HTMLElement;
+	requestRefresh = debounce(() => void this.refresh(), 300, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: UnderlinePlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_UNDERLINES;
+	}
+
+	getDisplayText(): string {
+		return "Underlines";
+	}
+
+	getIcon(): string {
+		return "underline";
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("underscore-underlines-view");
+
+		const controls = contentEl.createDiv({ cls: "underscore-underlines-controls" });
+		new DropdownComponent(controls)
+			.addOptions({ note: "Current note", vault: "Entire vault" })
+			.setValue(this.listScope)
+			.onChange((value) => {
+				this.listScope = value as PanelScope;
+				void this.refresh();
+			});
+		new SearchComponent(controls).setPlaceholder("Filter underlines").onChange((value) => {
+			this.query = value;
+			this.render();
+		});
+		this.addAction("file-plus", "Export list to a new note", () => void this.exportList());
+		this.listEl = contentEl.createDiv({ cls: "underscore-underlines-list" });
+
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", (leaf) => {
+				// Other panels, including this one, keep the last note listed
+				if (!(leaf?.view instanceof MarkdownView) || leaf.view.file === this.file) return;
+				this.file = leaf.view.file;
+				if (this.listScope === "note") void this.refresh();
+			}),
+		);
+		this.registerEvent(
+			this.app.workspace.on("editor-change", (_editor, info) => {
+				if (this.listScope === "note" && info.file === this.file) this.requestRefresh();
+			}),
+		);
+
+		this.file = this.app.workspace.getActiveViewOfType(MarkdownView)?.file ?? null;
+		await this.refresh();
+	}
+
+	async onClose(): Promise<void> {
+		this.contentEl.empty();
+	}
+
+	/** Re-reads the listed note, or the vault index, and redraws the list. */
+	async refresh(): Promise<void> {
+		if (this.listScope === "vault") {
+			this.listed = await this.plugin.getVaultUnderlines();
+		} else if (this.file) {
+			const path = this.file.path;
+			const text = this.plugin.getOpenNoteText(path) ?? (await this.app.vault.cachedRead(this.file));
+			const entries = findNoteUnderlines(text, this.plugin.getSyntaxesFor(path));
+			this.listed = [{ path, entries }];
+		} else {
+			this.listed = [];
+		}
+		this.render();
+	}
+
+	private render(): void {
+		this.listEl.empty();
+		if (this.listScope === "note" && !this.file) {
+			this.listEl.createDiv({ cls: "pane-empty", text: "Open a note to list its underlines." });
+			return;
+		}
+		const notes = filterUnderlines(this.listed, this.query);
+		if (notes.every((note) => note.entries.length === 0)) {
+			this.listEl.createDiv({ cls: "pane-empty", text: "No underlines." });
+			return;
+		}
+		for (const { path, entries } of notes) {
+			const noteEl = this.listEl.createDiv({ cls: "underscore-underlines-note" });
+			if (this.listScope === "vault") {
+				noteEl.createDiv({ cls: "underscore-underlines-path", text: path.replace(/\.md$/, "") });
+			}
+			for (const group of groupByHeading(entries)) {
+				if (group.heading !== null) {
+					noteEl.createDiv({ cls: "underscore-underlines-heading", text: group.heading });
+				}
+				for (const entry of group.entries) this.renderEntry(noteEl, path, entry);
+			}
+		}
+	}
+
+	private renderEntry(parent: HTMLElement, path: string, entry: UnderlineEntry): void {
+		const item = parent.createDiv({ cls: "underscore-underlines-entry" });
+		item.createDiv({ cls: "underscore-underlines-text", text: entry.text });
+		item.createDiv({ cls: "underscore-underlines-context", text: `${entry.line}: ${entry.context}` });
+		item.addEventListener("click", () => void this.plugin.revealUnderline(path, entry));
+	}
+
+	/** Writes the filtered list to a new note and opens it. */
+	private async exportList(): Promise<void> {
+		const notes = filterUnderlines(this.listed, this.query).filter((note) => note.entries.length > 0);
+		if (notes.length === 0) {
+			new Notice("No underlines to export.");
+			return;
+		}
+		let title = "Underlines";
+		if (this.listScope === "note") title += ` in ${this.file?.basename ?? ""}`;
+		let path = normalizePath(`${title}.md`);
+		for (let n = 1; this.app.vault.getAbstractFileByPath(path); n++) {
+			path = normalizePath(`${title} ${n}.md`);
+		}
+		const file = await this.app.vault.create(path, formatUnderlineList(notes, title));
+		await this.app.workspace.getLeaf(true).openFile(file);
+	}
+}
@@ -0,0 +1,121 @@
+/**
+ * Shared fixtures run against the markdown-it and remark extensions: each
+ * must underline exactly the spans the plugin's own matcher finds.
+ */
+
+import MarkdownIt from "markdown-it";
+import fromMarkdown from "mdast-util-from-markdown";
+import { underlinePlugin } from "../src/markdown-it-underline";
+import { MdastNode, underlineEmphasis } from "../src/remark-underline";
+import { findUnderlineSpans } from "../src/tokenizer";
+
+type Span = { from: number; to: number };
+
+// Single paragraphs starting at offset 0, so markdown-it's inline offsets are document offsets
+const FIXTURES: Array<[string, string]> = [
+	["simple span", "some _underlined_ text"],
+	["several spans", "_one_ and _two_ and _three_"],
+	["asterisk emphasis stays italic", "*italic* and _under_"],
+	["strong underscores stay bold", "__bold__ and _under_"],
+	["underline around strong", "_a __b__ c_"],
+	["strong around underline", "__a _b_ c__"],
+	["underline and italic nested", "_a *b* c_ *d _e_ f*"],
+	["triple run", "___both___"],
+	["span opening inside a run", "__a_ b"],
+	["leftover underscores stay literal", "_b__*ab_"],
+	["snake_case is not a span", "snake_case_name and _real_"],
+	["escaped underscores", "\\_not\\_ but _yes_"],
+	["code spans are inert", "`_code_` and _text_"],
+	["an escaped backtick opens no code span", "\\`_x_` and _y_"],
+	["code spans close at a run of the same length", "`a``_b_` and ``c`_d_`` _e_"],
+	["math is inert", "$a_1 + b_2$ and _text_"],
+	["links are inert", "[_link_](https://e.com/_x_) and _text_"],
+	["wikilinks are inert", "[[note_a_b]] and _text_"],
+	["bare URLs are inert", "https://e.com/_x_ and _text_"],
+	["unclosed", "_open and never closed"],
+	["punctuation flanking", "(_paren_) and \"_quoted_\"."],
+	["across a soft break", "_first line\nsecond line_"],
+	["unicode content", "_über_ and _日本_"],
+];
+
+function markdownItSpans(source: string): Span[] {
+	const md = new MarkdownIt().use(underlinePlugin);
+	const spans: Span[] = [];
+	const visit = (tokens: MarkdownIt.Token[]) => {
+		for (const token of tokens) {
+			if (token.type === "u_open") spans.push(token.meta as Span);
+			if (token.children) visit(token.children);
+		}
+	};
+	visit(md.parse(source, {}));
+	return spans.sort((a, b) => a.from - b.from);
+}
+
+function remarkSpans(source: string): Span[] {
+	const tree = underlineEmphasis(fromMarkdown(source) as MdastNode, source);
+	const spans: Span[] = [];
+	const visit = (node: MdastNode) => {
+		if (node.type === "underline") {
+			spans.push({ from: node.position?.start.offset ?? -1, to: node.position?.end.offset ?? -1 });
+		}
+		node.children?.forEach(visit);
+	};
+	visit(tree);
+	return spans.sort((a, b) => a.from - b.from);
+}
+
+describe.each(FIXTURES)("conformance: %s", (_name, source) => {
+	const expected = findUnderlineSpans(source);
+
+	test("markdown-it plugin", () => {
+		expect(markdownItSpans(source)).toEqual(expected);
+	});
+
+	test("remark plugin", () => {
+		expect(remarkSpans(source)).toEqual(expected);
+	});
+});
+
+describe("markdown-it plugin", () => {
+	const md = new MarkdownIt().use(underlinePlugin);
+
+	test("renders <u> and keeps other emphasis", () => {
+		expect(md.renderInline("_a_ *b* __c__")).toBe("<u>a</u> <em>b</em> <strong>c</strong>");
+	});
+
+	test("leaves underscores the tokenizer didn't pair as text", () => {
+		expect(md.renderInline("_b__*ab_")).toBe("<u>b</u>_*ab_");
+		expect(md.renderInline("__a_ b")).toBe("_<u>a</u> b");
+	});
+
+	test("renders formatting inside the underline", () => {
+		expect(md.renderInline("_a `b` **c**_")).toBe("<u>a <code>b</code> <strong>c</strong></u>");
+	});
+
+	test("leaves underscores inside link text to markdown-it", () => {
+		expect(md.renderInline("[_a_](x)")).toBe('<a href="x"><em>a</em></a>');
+	});
+
+	test("underlines inside table cells without pairing across them", () => {
+		const html = md.render("| _a_ | b_ |\n|---|---|\n| _c | d_ |");
+		expect(html).toContain("<th><u>a</u></th>");
+		expect(html.match(/<u>/g)).toHaveLength(1);
+	});
+});
+
+describe("remark plugin", () => {
+	test("marks underline nodes for rendering as <u>", () => {
+		const tree = underlineEmphasis(fromMarkdown("*a* _b_") as MdastNode, "*a* _b_");
+		const [paragraph] = tree.children ?? [];
+		expect(paragraph.children?.map((node) => node.type)).toEqual(["emphasis", "text", "underline"]);
+		expect(paragraph.children?.[2].data?.hName).toBe("u");
+	});
+
+	test("uses document offsets across blocks", () => {
+		const source = "# _Title_\n\n```\n_code_\n```\n\n- item _one_\n";
+		expect(remarkSpans(source)).toEqual([
+			{ from: 2, to: 9 },
+			{ from: 34, to: 39 },
+		]);
+	});
+});
@@ -0,0 +1,94 @@
+import { ConversionKind, planConversion } from "../src/conversion";
+import { HTML_SYNTAX, PLUS_SYNTAX, UNDERSCORE_SYNTAX, customSyntax } from "../src/syntax";
+
+const ALL = [UNDERSCORE_SYNTAX, PLUS_SYNTAX, HTML_SYNTAX];
+
+function convert(markdown: string, kind: ConversionKind, ranges: Array<{ from: number; to: number }> = []) {
+	const { edits, count } = planConversion(markdown, kind, ALL, ranges);
+	let result = markdown;
+	for (const edit of [...edits].reverse()) {
+		result = result.slice(0, edit.from) + edit.text + result.slice(edit.to);
+	}
+	return { result, count };
+}
+
+describe("planConversion", () => {
+	test("removes the marks of every enabled syntax", () => {
+		expect(convert("_a_ ++b++ <u>c</u> *d*", "remove")).toEqual({ result: "a b c *d*", count: 3 });
+	});
+
+	test("removes nested spans of different syntaxes together", () => {
+		expect(convert("<u>_a_</u>", "remove")).toEqual({ result: "a", count: 2 });
+	});
+
+	test("only removes the syntaxes that are on", () => {
+		const { edits, count } = planConversion("_a_ ++b++", "remove", [PLUS_SYNTAX]);
+		expect(count).toBe(1);
+		expect(edits.map((e) => e.from)).toEqual([4, 7]);
+	});
+
+	test("skips code, math, links and URLs", () => {
+		const note = "`_a_` $x_1 y_2$ [_b_](u_r_l) https://e.com/_c_ _d_";
+		expect(convert(note, "underscore-to-html")).toEqual({
+			result: "`_a_` $x_1 y_2$ [_b_](u_r_l) https://e.com/_c_ <u>d</u>",
+			count: 1,
+		});
+	});
+
+	test("converts underlines to italics, falling back to <em>", () => {
+		expect(convert("_a_ and x_b_", "underline-to-italic").result).toBe("*a* and x_b_");
+		expect(convert("**_a_**", "underline-to-italic").result).toBe("**<em>a</em>**");
+	});
+
+	test("converts the underlines of every enabled syntax to italics", () => {
+		const syntaxes = [PLUS_SYNTAX, HTML_SYNTAX, customSyntax("^^")!];
+		const { edits, count } = planConversion("_a_ ++b++ <u>c</u> ^^d^^ x++e++", "underline-to-italic", syntaxes);
+		expect(count).toBe(4);
+		expect(edits.map((e) => e.text)).toEqual(["*", "*", "*", "*", "*", "*", "*", "*"]);
+		expect(edits[0].from).toBe(4);
+	});
+
+	test("converts the underlines of every enabled syntax to <u> tags", () => {
+		expect(convert("_a_ ++b++ <u>c</u>", "underscore-to-html")).toEqual({
+			result: "<u>a</u> <u>b</u> <u>c</u>",
+			count: 2,
+		});
+		const { count } = planConversion("_a_ ++b++", "underscore-to-html", [PLUS_SYNTAX]);
+		expect(count).toBe(1);
+	});
+
+	test("leaves _text_ alone in notes that opted out of underscore", () => {
+		const { edits } = planConversion("_a_ ++b++", "underline-to-italic", [PLUS_SYNTAX]);
+		expect(edits.map((e) => e.from)).toEqual([4, 7]);
+	});
+
+	test("converts single-asterisk italics to underlines, keeping bold and intraword ones", () => {
+		expect(convert("*a* **b** ***c*** snake*d*", "italic-to-underline")).toEqual({
+			result: "_a_ **b** _**c**_ snake*d*",
+			count: 2,
+		});
+	});
+
+	test("converts <u> tags to underscores when they read back as underlines", () => {
+		expect(convert("<u>a</u> x<u>b</u>", "html-to-underscore")).toEqual({
+			result: "_a_ x<u>b</u>",
+			count: 1,
+		});
+	});
+
+	test("limits the conversion to spans touching the selection", () => {
+		const note = "_a_ _b_ _c_";
+		expect(convert(note, "remove", [{ from: 5, to: 6 }])).toEqual({ result: "_a_ b _c_", count: 1 });
+		expect(convert(note, "remove", [{ from: 0, to: 1 }, { from: 10, to: 11 }]).result).toBe("a _b_ c");
+	});
+
+	test("limits every kind of conversion to the selection", () => {
+		const note = "*a* *b*\n\n_c_ _d_";
+		expect(convert(note, "italic-to-underline", [{ from: 4, to: 7 }]).result).toBe("*a* _b_\n\n_c_ _d_");
+		expect(convert(note, "underline-to-italic", [{ from: 9, to: 10 }]).result).toBe("*a* *b*\n\n*c* _d_");
+	});
+
+	test("reports nothing to do when the selection has no spans", () => {
+		expect(planConversion("_a_ plain", "remove", ALL, [{ from: 4, to: 9 }])).toEqual({ edits: [], count: 0 });
+	});
+});
@@ -30,17 +30,63 @@ describe("transformElement — edge cases", () => {
 		expect(strong).not.toHaveClass("underscore-em");
 	});
 
-	test("documented limitation: same text as _X_ and *X* in same paragraph — both get class", () => {
-		// This is the known v1 limitation: identical text from _ and * both get treated
+	test("same text as _X_ and *X* in same paragraph — only the underscore em gets class", () => {
 		const block = buildBlock("<em>same</em> and <em>same</em>");
 		const ctx = makeCtx("_same_ and *same*");
 		transformElement(block, ctx);
 		const ems = block.querySelectorAll("em");
-		// Both have the same normalized text "same" which is in underscoreTexts
 		expect(ems[0]).toHaveClass("underscore-em");
+		expect(ems[1]).not.toHaveClass("underscore-em");
+	});
+
+	test("same text as *X* before _X_ — classification follows source order", () => {
+		const block = buildBlock("<em>same</em> and <em>same</em>");
+		const ctx = makeCtx("*same* and _same_");
+		transformElement(block, ctx);
+		const ems = block.querySelectorAll("em");
+		expect(ems[0]).not.toHaveClass("underscore-em");
 		expect(ems[1]).toHaveClass("underscore-em");
 	});
 
+	test("repeated spans with alternating delimiters are each classified by position", () => {
+		const block = buildBlock("<em>x</em> <em>x</em> <em>x</em> <em>x</em>");
+		const ctx = makeCtx("_x_ *x* *x* _x_");
+		transformElement(block, ctx);
+		const ems = block.querySelectorAll("em");
+		expect(ems[0]).toHaveClass("underscore-em");
+		expect(ems[1]).not.toHaveClass("underscore-em");
+		expect(ems[2]).not.toHaveClass("underscore-em");
+		expect(ems[3]).toHaveClass("underscore-em");
+	});
+
+	test("markers stripped by normalization no longer collide across delimiters", () => {
+		// "*~~a~~*" and "_a_" both normalize to "a"; order decides
+		const block = buildBlock("<em><del>a</del></em> <em>a</em>");
+		const ctx = makeCtx("*~~a~~* _a_");
+		transformElement(block, ctx);
+		const ems = block.querySelectorAll("em");
+		expect(ems[0]).not.toHaveClass("underscore-em");
+		expect(ems[1]).toHaveClass("underscore-em");
+	});
+
+	test("underscore em nested inside asterisk em", () => {
+		const block = buildBlock("<em>a <em>b</em> c</em>");
+		const ctx = makeCtx("*a _b_ c*");
+		transformElement(block, ctx);
+		const ems = block.querySelectorAll("em");
+		expect(ems[0]).not.toHaveClass("underscore-em");
+		expect(ems[1]).toHaveClass("underscore-em");
+	});
+
+	test("underscore em wrapping a link matches the link text", () => {
+		const block = buildBlock('<em><a href="https://example.com">site</a></em> and <em>site</em>');
+		const ctx = makeCtx("_[site](https://example.com)_ and *site*");
+		transformElement(block, ctx);
+		const ems = block.querySelectorAll("em");
+		expect(ems[0]).toHaveClass("underscore-em");
+		expect(ems[1]).not.toHaveClass("underscore-em");
+	});
+
 	test("empty em does not crash", () => {
 		const block = buildBlock("<em></em>");
 		const ctx = makeCtx("_ _");
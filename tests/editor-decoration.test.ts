@@ -0,0 +1,359 @@
+import { EditorSelection, EditorState, StateEffect } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { underlineProfile, underlineSyntaxes, underlineViewPlugin } from "../src/editor-decoration";
+import { HTML_SYNTAX, PLUS_SYNTAX, UNDERSCORE_SYNTAX, UnderlineSyntax } from "../src/syntax";
+import { tokenizeEmphasis } from "../src/tokenizer";
+
+function makeView(
+	doc: string,
+	cursor: number,
+	inObsidian: boolean,
+	syntaxes?: UnderlineSyntax[],
+): EditorView {
+	const parent = document.createElement("div");
+	if (inObsidian) parent.className = "markdown-source-view is-live-preview";
+	document.body.appendChild(parent);
+	return new EditorView({
+		state: EditorState.create({
+			doc,
+			selection: EditorSelection.cursor(cursor),
+			extensions: [
+				underlineViewPlugin,
+				EditorState.allowMultipleSelections.of(true),
+				syntaxes ? underlineSyntaxes.of(syntaxes) : [],
+			],
+		}),
+		parent,
+	});
+}
+
+function collect(view: EditorView): Array<{ from: number; to: number; class: string }> {
+	const result: Array<{ from: number; to: number; class: string }> = [];
+	const decorations = view.plugin(underlineViewPlugin)!.decorations;
+	decorations.between(0, view.state.doc.length, (from, to, deco) => {
+		result.push({ from, to, class: deco.spec.class });
+	});
+	return result;
+}
+
+function activeMarks(view: EditorView): number[] {
+	return collect(view)
+		.filter((d) => d.class.includes("cm-underscore-mark-active"))
+		.map((d) => d.from);
+}
+
+afterEach(() => {
+	document.body.innerHTML = "";
+});
+
+describe("buildDecorations — token-scoped mark reveal", () => {
+	const doc = "_one_ middle _two_";
+
+	test("decorates every token on the line", () => {
+		const view = makeView(doc, 15, true);
+		const content = collect(view).filter((d) => d.class === "cm-underscore-underline");
+		expect(content).toEqual([
+			{ from: 1, to: 4, class: "cm-underscore-underline" },
+			{ from: 14, to: 17, class: "cm-underscore-underline" },
+		]);
+	});
+
+	test("reveals only the marks of the token containing the cursor", () => {
+		const view = makeView(doc, 15, true);
+		expect(activeMarks(view)).toEqual([13, 17]);
+	});
+
+	test("cursor between tokens on the same line reveals nothing", () => {
+		const view = makeView(doc, 8, true);
+		expect(activeMarks(view)).toEqual([]);
+	});
+
+	test("cursor touching a token edge reveals that token", () => {
+		const view = makeView(doc, 5, true);
+		expect(activeMarks(view)).toEqual([0, 4]);
+	});
+
+	test("moving the selection moves the revealed token", () => {
+		const view = makeView(doc, 15, true);
+		view.dispatch({ selection: { anchor: 2 } });
+		expect(activeMarks(view)).toEqual([0, 4]);
+	});
+
+	test("every range of a multi-selection reveals its token", () => {
+		const view = makeView(doc, 2, true);
+		view.dispatch({
+			selection: EditorSelection.create([
+				EditorSelection.cursor(2),
+				EditorSelection.cursor(15),
+			]),
+		});
+		expect(activeMarks(view)).toEqual([0, 4, 13, 17]);
+	});
+
+	test("outside Obsidian no token is revealed", () => {
+		const view = makeView(doc, 15, false);
+		expect(activeMarks(view)).toEqual([]);
+	});
+});
+
+describe("incremental decoration engine", () => {
+	function scannedLines(view: EditorView): number {
+		return view.plugin(underlineViewPlugin)!.lastScannedLines;
+	}
+
+	function content(view: EditorView): Array<{ from: number; to: number }> {
+		return collect(view)
+			.filter((d) => d.class === "cm-underscore-underline")
+			.map(({ from, to }) => ({ from, to }));
+	}
+
+	function bigDoc(lines: number): string {
+		// List items: every line is its own block, as in a long meeting log
+		return Array.from({ length: lines }, (_, i) => `- line ${i} has _span ${i}_ and text`).join("\n");
+	}
+
+	test("decorations after edits match a fresh build", () => {
+		const view = makeView("_a_ plain\nmore _b_ text\n_c_", 0, false);
+		view.dispatch({ changes: { from: 0, insert: "x _new_ " } });
+		view.dispatch({ changes: { from: view.state.doc.line(2).from, to: view.state.doc.line(2).to, insert: "gone" } });
+		view.dispatch({ changes: { from: view.state.doc.length, insert: "\n_d_ _e_" } });
+
+		const fresh = makeView(view.state.doc.toString(), 0, false);
+		expect(content(view)).toEqual(content(fresh));
+	});
+
+	test("adding or removing a table's delimiter row matches a fresh build", () => {
+		const view = makeView("intro\n| _a | b_ |\n| _c_ | d |\n| e | _f_ |\nafter", 0, false);
+		const delimiterAt = view.state.doc.line(3).from;
+		view.dispatch({ changes: { from: delimiterAt, insert: "|---|---|\n" } });
+		expect(content(view)).toEqual(content(makeView(view.state.doc.toString(), 0, false)));
+
+		view.dispatch({ changes: { from: delimiterAt, to: delimiterAt + 10 } });
+		expect(content(view)).toEqual(content(makeView(view.state.doc.toString(), 0, false)));
+	});
+
+	test("removing the pipes of a row above matches a fresh build", () => {
+		const view = makeView("| h |\n|---|\n| x |\n| _y | z_ |", 0, false);
+		const row = view.state.doc.line(3);
+		view.dispatch({ changes: { from: row.from, to: row.to, insert: "x" } });
+		expect(content(view)).toEqual(content(makeView(view.state.doc.toString(), 0, false)));
+	});
+
+	test("closing a token by typing its final underscore decorates it", () => {
+		const view = makeView("before _typing", 0, false);
+		expect(content(view)).toEqual([]);
+		view.dispatch({ changes: { from: view.state.doc.length, insert: "_" } });
+		expect(content(view)).toEqual([{ from: 8, to: 14 }]);
+	});
+
+	test("selection changes reuse stored tokens without rescanning", () => {
+		const view = makeView(bigDoc(200), 0, true);
+		view.dispatch({ selection: { anchor: 16 } });
+		expect(scannedLines(view)).toBe(0);
+		expect(activeMarks(view)).toEqual([13, 20]);
+	});
+
+	test("rescan cost scales with the size of the edit, not the document", () => {
+		const small = makeView(bigDoc(1000), 0, false);
+		const large = makeView(bigDoc(20000), 0, false);
+
+		for (const view of [small, large]) {
+			view.dispatch({ changes: { from: 5, insert: "x" } });
+			expect(scannedLines(view)).toBe(1);
+		}
+
+		const pasted = Array.from({ length: 10 }, () => "_p_").join("\n");
+		for (const view of [small, large]) {
+			view.dispatch({ changes: { from: 0, insert: pasted } });
+			expect(scannedLines(view)).toBe(10);
+		}
+	});
+
+	test("an edit in one long paragraph rescans around the viewport, not the whole paragraph", () => {
+		// Soft-wrapped prose without blank lines: the whole document is one paragraph
+		const prose = (lines: number) =>
+			Array.from({ length: lines }, (_, i) => `sentence ${i} with _span ${i}_ and text`).join("\n");
+		const small = makeView(prose(1000), 0, false);
+		const large = makeView(prose(20000), 0, false);
+
+		const scanned: number[] = [];
+		for (const view of [small, large]) {
+			view.dispatch({ changes: { from: 5, insert: "x" } });
+			scanned.push(scannedLines(view));
+		}
+		expect(scanned[1]).toBe(scanned[0]);
+		expect(scanned[1]).toBeLessThan(1000);
+		expect(content(large)[0]).toEqual({ from: 18, to: 24 });
+	});
+});
+
+describe("spans across soft line breaks", () => {
+	function content(view: EditorView): Array<{ from: number; to: number }> {
+		return collect(view)
+			.filter((d) => d.class === "cm-underscore-underline")
+			.map(({ from, to }) => ({ from, to }));
+	}
+
+	test("a span opened on one line and closed on the next is decorated", () => {
+		const doc = "_a phrase\nthat continues_ here";
+		const view = makeView(doc, 0, false);
+		expect(content(view)).toEqual([{ from: 1, to: 24 }]);
+	});
+
+	test("a blank line ends the paragraph, so no span crosses it", () => {
+		const view = makeView("_open\n\nclose_", 0, false);
+		expect(content(view)).toEqual([]);
+	});
+
+	test("a list item starts a new paragraph", () => {
+		const view = makeView("- _one\n- two_", 0, false);
+		expect(content(view)).toEqual([]);
+	});
+
+	test("a heading is a paragraph of its own line", () => {
+		expect(content(makeView("# Title _a\nnext line b_", 0, false))).toEqual([]);
+		expect(content(makeView("_a\n# b_", 0, false))).toEqual([]);
+	});
+
+	test("a thematic break ends the paragraph", () => {
+		expect(content(makeView("text _a\n***\nb_", 0, false))).toEqual([]);
+		expect(content(makeView("text _a\n- - -\nb_", 0, false))).toEqual([]);
+	});
+
+	test("a quote's lines form one paragraph", () => {
+		expect(content(makeView("> _quoted\n> continues_", 0, false))).toEqual([{ from: 3, to: 21 }]);
+		expect(content(makeView("> _a\n>\n> b_", 0, false))).toEqual([]);
+		expect(content(makeView("> _a\n> > b_", 0, false))).toEqual([]);
+	});
+
+	test("turning a line into a heading splits its paragraph incrementally", () => {
+		const view = makeView("Title _a\nnext line b_", 0, false);
+		expect(content(view)).toEqual([{ from: 7, to: 20 }]);
+		view.dispatch({ changes: { from: 0, insert: "# " } });
+		expect(content(view)).toEqual([]);
+	});
+
+	test("closing a span on a later line decorates it incrementally", () => {
+		const view = makeView("_start of\na sentence\nend", 0, false);
+		expect(content(view)).toEqual([]);
+		view.dispatch({ changes: { from: view.state.doc.length, insert: "_" } });
+		expect(content(view)).toEqual([{ from: 1, to: 24 }]);
+	});
+});
+
+describe("agreement with the shared tokenizer", () => {
+	const fixtures = [
+		"snake_case_identifier and _real span_",
+		"_ spaced _ and \\_escaped\\_",
+		"__strong__ _em_ ___both___",
+		"_foo _bar_ baz_",
+		"`code_span` then _x_",
+	];
+
+	test.each(fixtures)("%j decorates exactly the tokenizer's _ emphasis", (doc) => {
+		const view = makeView(doc, 0, false);
+		const decorated = collect(view)
+			.filter((d) => d.class === "cm-underscore-underline")
+			.map((d) => [d.from - 1, d.to + 1]);
+		const expected = tokenizeEmphasis(doc)
+			.filter((s) => s.delimiter === "_" && !s.strong)
+			.map((s) => [s.from, s.to]);
+		expect(decorated).toEqual(expected);
+	});
+});
+
+describe("configurable syntaxes", () => {
+	test("decorates ++ and <u> with hidden marks and plain content", () => {
+		const view = makeView("++a++ <u>b</u> _c_", 0, false, [PLUS_SYNTAX, HTML_SYNTAX]);
+		expect(collect(view)).toEqual([
+			{ from: 0, to: 2, class: "cm-underscore-mark" },
+			{ from: 2, to: 3, class: "cm-underscore-underline cm-underscore-plain" },
+			{ from: 3, to: 5, class: "cm-underscore-mark" },
+			{ from: 6, to: 9, class: "cm-underscore-mark" },
+			{ from: 9, to: 10, class: "cm-underscore-underline cm-underscore-plain" },
+			{ from: 10, to: 14, class: "cm-underscore-mark" },
+		]);
+	});
+
+	test("several syntaxes at once", () => {
+		const view = makeView("++a++ _b_", 0, false, [UNDERSCORE_SYNTAX, PLUS_SYNTAX]);
+		const content = collect(view).filter((d) => d.class.startsWith("cm-underscore-underline"));
+		expect(content.map((d) => [d.from, d.to])).toEqual([[2, 3], [7, 8]]);
+	});
+
+	test("reveals the whole mark of the token under the cursor", () => {
+		const view = makeView("x <u>b</u>", 5, true, [HTML_SYNTAX]);
+		expect(activeMarks(view)).toEqual([2, 6]);
+	});
+
+	test("skips delimiters inside code", () => {
+		const view = makeView("`++a++` ++b++", 0, false, [PLUS_SYNTAX]);
+		const content = collect(view).filter((d) => d.class.startsWith("cm-underscore-underline"));
+		expect(content.map((d) => [d.from, d.to])).toEqual([[10, 11]]);
+	});
+
+	test("rescans when the enabled syntaxes change", () => {
+		const view = makeView("++a++ _b_", 0, false, [UNDERSCORE_SYNTAX]);
+		view.dispatch({ effects: StateEffect.reconfigure.of([
+			underlineViewPlugin,
+			underlineSyntaxes.of([PLUS_SYNTAX]),
+		]) });
+		const content = collect(view).filter((d) => d.class.startsWith("cm-underscore-underline"));
+		expect(content.map((d) => [d.from, d.to])).toEqual([[2, 3]]);
+	});
+
+	test("decorates nothing in a note with every syntax turned off", () => {
+		const view = makeView("_a_ ++b++", 0, false, []);
+		expect(collect(view)).toEqual([]);
+	});
+});
+
+describe("rendering profiles", () => {
+	const withProfile = (doc: string, profile: "hidden" | "dimmed" | "italic" | "raw") => {
+		const view = makeView(doc, 0, true);
+		view.dispatch({ effects: StateEffect.appendConfig.of(underlineProfile.of(profile)) });
+		return view;
+	};
+
+	test("tags the editor with its profile for styles.css", () => {
+		expect(makeView("_a_", 0, true).dom).toHaveClass("underscore-profile-hidden");
+		expect(withProfile("_a_", "dimmed").dom).toHaveClass("underscore-profile-dimmed");
+	});
+
+	test("italic decorates the content as italics instead of underline", () => {
+		const classes = collect(withProfile("x _a_", "italic")).map((d) => d.class);
+		expect(classes).toEqual(["cm-underscore-mark", "cm-underscore-italic", "cm-underscore-mark"]);
+	});
+
+	test("raw adds no decorations", () => {
+		expect(collect(withProfile("_a_ _b_", "raw"))).toEqual([]);
+	});
+
+	test("switching profiles keeps the tokens", () => {
+		const view = withProfile("x _a_", "raw");
+		view.dispatch({ effects: StateEffect.reconfigure.of([underlineViewPlugin, underlineProfile.of("hidden")]) });
+		expect(collect(view).map((d) => d.class)).toContain("cm-underscore-underline");
+	});
+});
+
+describe("tables", () => {
+	const content = (view: EditorView) =>
+		collect(view)
+			.filter((d) => d.class.startsWith("cm-underscore-underline"))
+			.map((d) => view.state.doc.sliceString(d.from, d.to));
+
+	test("decorates spans inside cells", () => {
+		const view = makeView("| a | b |\n| --- | --- |\n| _x_ | y _z_ |", 0, false);
+		expect(content(view)).toEqual(["x", "z"]);
+	});
+
+	test("never pairs marks across cells", () => {
+		const view = makeView("| a | b |\n|---|---|\n| _x | y_ |", 0, false);
+		expect(content(view)).toEqual([]);
+	});
+
+	test("scans cells of other syntaxes the same way", () => {
+		const view = makeView("| ++a | b++ |\n|---|---|\n| ++c++ | d |", 0, false, [PLUS_SYNTAX]);
+		expect(content(view)).toEqual(["c"]);
+	});
+});
@@ -0,0 +1,105 @@
+import {
+	getFileSyntaxes,
+	getFrontmatterOverride,
+	globToRegExp,
+	isUnderscoreEnabled,
+	matchesFolderGlob,
+} from "../src/file-scope";
+import { DEFAULT_SETTINGS, UnderlineSettings } from "../src/settings";
+
+const settings = (overrides: Partial<UnderlineSettings> = {}): UnderlineSettings => ({
+	...DEFAULT_SETTINGS,
+	...overrides,
+});
+
+describe("matchesFolderGlob", () => {
+	test("a plain folder name covers everything below it", () => {
+		expect(matchesFolderGlob("Imports/paper.md", "Imports")).toBe(true);
+		expect(matchesFolderGlob("Imports/2023/paper.md", "Imports")).toBe(true);
+		expect(matchesFolderGlob("Imports.md", "Imports")).toBe(false);
+		expect(matchesFolderGlob("Notes/Imports/paper.md", "Imports")).toBe(false);
+	});
+
+	test("ignores leading and trailing slashes", () => {
+		expect(matchesFolderGlob("Imports/paper.md", "/Imports/")).toBe(true);
+	});
+
+	test("* and ? stay within one folder name", () => {
+		expect(matchesFolderGlob("Zettel 2023/a.md", "Zettel*")).toBe(true);
+		expect(matchesFolderGlob("Papers/2023/a.md", "Papers/20??")).toBe(true);
+		expect(matchesFolderGlob("Papers/x/2023/a.md", "Papers/*")).toBe(true);
+		expect(globToRegExp("a/*").test("a/b/c")).toBe(false);
+	});
+
+	test("** spans any number of folders", () => {
+		expect(matchesFolderGlob("Work/Clients/Imports/a.md", "**/Imports")).toBe(true);
+		expect(matchesFolderGlob("Imports/a.md", "**/Imports")).toBe(true);
+		expect(matchesFolderGlob("Work/a/b/notes.md", "Work/**/notes.md")).toBe(true);
+	});
+
+	test("treats regex characters literally", () => {
+		expect(matchesFolderGlob("Reading (old)/a.md", "Reading (old)")).toBe(true);
+		expect(matchesFolderGlob("ReadingX/a.md", "Reading.")).toBe(false);
+	});
+
+	test("an empty glob matches nothing", () => {
+		expect(matchesFolderGlob("a.md", "  ")).toBe(false);
+	});
+});
+
+describe("getFrontmatterOverride", () => {
+	test("reads the underline property", () => {
+		expect(getFrontmatterOverride({ underline: false })).toBe(false);
+		expect(getFrontmatterOverride({ underline: "false" })).toBe(false);
+		expect(getFrontmatterOverride({ underline: true })).toBe(true);
+	});
+
+	test("reads the underscore-mode property", () => {
+		expect(getFrontmatterOverride({ "underscore-mode": "italic" })).toBe(false);
+		expect(getFrontmatterOverride({ "underscore-mode": " Underline " })).toBe(true);
+	});
+
+	test("is null without a recognised value", () => {
+		expect(getFrontmatterOverride(undefined)).toBeNull();
+		expect(getFrontmatterOverride({ tags: ["a"] })).toBeNull();
+		expect(getFrontmatterOverride({ "underscore-mode": "bold" })).toBeNull();
+	});
+});
+
+describe("isUnderscoreEnabled", () => {
+	test("is on everywhere by default", () => {
+		expect(isUnderscoreEnabled(settings(), "any/note.md", undefined)).toBe(true);
+	});
+
+	test("excluded folders turn it off", () => {
+		const s = settings({ excludeFolders: ["Imports"] });
+		expect(isUnderscoreEnabled(s, "Imports/paper.md", undefined)).toBe(false);
+		expect(isUnderscoreEnabled(s, "Notes/a.md", undefined)).toBe(true);
+	});
+
+	test("included folders limit it to those folders", () => {
+		const s = settings({ includeFolders: ["Notes", "Projects/**"] });
+		expect(isUnderscoreEnabled(s, "Notes/a.md", undefined)).toBe(true);
+		expect(isUnderscoreEnabled(s, "Projects/x/a.md", undefined)).toBe(true);
+		expect(isUnderscoreEnabled(s, "Inbox/a.md", undefined)).toBe(false);
+	});
+
+	test("exclusion wins inside an included folder", () => {
+		const s = settings({ includeFolders: ["Notes"], excludeFolders: ["Notes/Imports"] });
+		expect(isUnderscoreEnabled(s, "Notes/Imports/a.md", undefined)).toBe(false);
+	});
+
+	test("frontmatter overrides the folder settings both ways", () => {
+		const s = settings({ excludeFolders: ["Imports"] });
+		expect(isUnderscoreEnabled(s, "Imports/a.md", { underline: true })).toBe(true);
+		expect(isUnderscoreEnabled(s, "Notes/a.md", { "underscore-mode": "italic" })).toBe(false);
+	});
+});
+
+describe("getFileSyntaxes", () => {
+	test("drops only the underscore syntax for an opted-out note", () => {
+		const s = settings({ syntaxes: ["underscore", "plus"] });
+		expect(getFileSyntaxes(s, "a.md", { underline: false }).map((x) => x.id)).toEqual(["plus"]);
+		expect(getFileSyntaxes(s, "a.md", undefined).map((x) => x.id)).toEqual(["underscore", "plus"]);
+	});
+});
@@ -0,0 +1,138 @@
+import type { TFile, Vault } from "obsidian";
+import {
+	applyMigrationSpans,
+	findMigrationSpans,
+	isInFolder,
+	revertMigration,
+	runMigration,
+	scanVault,
+} from "../src/migration";
+
+const italicsOnly = { convertHtml: false };
+const withHtml = { convertHtml: true };
+
+function migrate(markdown: string, options = withHtml): string {
+	return applyMigrationSpans(markdown, findMigrationSpans(markdown, options)).content;
+}
+
+/** Minimal in-memory Vault with the methods the migration uses. */
+function makeVault(files: Record<string, string>): Vault {
+	const file = (path: string) => ({ path }) as TFile;
+	return {
+		getMarkdownFiles: () => Object.keys(files).filter((p) => p.endsWith(".md")).map(file),
+		getFileByPath: (path: string) => (path in files ? file(path) : null),
+		cachedRead: async (f: TFile) => files[f.path],
+		process: async (f: TFile, fn: (data: string) => string) => {
+			files[f.path] = fn(files[f.path]);
+			return files[f.path];
+		},
+	} as unknown as Vault;
+}
+
+describe("findMigrationSpans", () => {
+	test("lists underscore italics with line numbers and replacements", () => {
+		const spans = findMigrationSpans("intro\n_one_ and _two_", italicsOnly);
+		expect(spans.map((s) => [s.line, s.original, s.replacement])).toEqual([
+			[2, "_one_", "*one*"],
+			[2, "_two_", "*two*"],
+		]);
+	});
+
+	test("uses the same skip rules as the editor", () => {
+		const markdown = "`_code_` $a_1$ [[my_note]] snake_case __bold__\n```\n_fenced_\n```";
+		expect(findMigrationSpans(markdown, italicsOnly)).toEqual([]);
+	});
+
+	test("falls back to <em> where an asterisk would merge with emphasis", () => {
+		const spans = findMigrationSpans("*_a_* and _*b*_", italicsOnly);
+		expect(spans.map((s) => s.replacement)).toEqual(["<em>a</em>", "<em>*b*</em>"]);
+	});
+
+	test("lists <u> spans only when asked", () => {
+		expect(findMigrationSpans("<u>x</u>", italicsOnly)).toEqual([]);
+		expect(findMigrationSpans("<u>x</u>", withHtml).map((s) => s.replacement)).toEqual(["_x_"]);
+	});
+
+	test("skips <u> spans that can't become _..._", () => {
+		expect(findMigrationSpans("a<u>b</u>c <u> x</u> `<u>y</u>`", withHtml)).toEqual([]);
+		expect(findMigrationSpans("```\n<u>x</u>\n```\n$$<u>y</u>$$", withHtml)).toEqual([]);
+	});
+
+	test("lists only the spans `include` accepts", () => {
+		const spans = findMigrationSpans("_a_ <u>b</u> _c_", { ...withHtml, include: (from) => from > 0 });
+		expect(spans.map((s) => s.original)).toEqual(["<u>b</u>", "_c_"]);
+	});
+
+	test("checks each span against its own paragraph", () => {
+		const markdown = "_a_ *b\n\n<u>c</u>\n\n| <u>d</u> | *e |";
+		expect(findMigrationSpans(markdown, withHtml).map((s) => s.replacement)).toEqual(["*a*", "_c_", "_d_"]);
+	});
+});
+
+describe("applyMigrationSpans", () => {
+	test("rewrites italics and <u> tags in one pass", () => {
+		expect(migrate("_it_ and <u>under</u>")).toBe("*it* and _under_");
+	});
+
+	test("rewrites nested spans together", () => {
+		expect(migrate("_a _b_ c_")).toBe("*a *b* c*");
+	});
+
+	test("leaves unselected spans alone", () => {
+		const markdown = "_keep_ _change_";
+		const [, change] = findMigrationSpans(markdown, italicsOnly);
+		expect(applyMigrationSpans(markdown, [change]).content).toBe("_keep_ *change*");
+	});
+
+	test("skips spans whose text changed since the scan", () => {
+		const spans = findMigrationSpans("_one_ _two_", italicsOnly);
+		const result = applyMigrationSpans("_uno_ _two_", spans);
+		expect(result).toEqual({ content: "_uno_ *two*", converted: 1, skipped: 1 });
+	});
+});
+
+describe("isInFolder", () => {
+	test("matches the folder and its subfolders only", () => {
+		expect(isInFolder("notes/a.md", "notes")).toBe(true);
+		expect(isInFolder("notes/sub/a.md", "notes/")).toBe(true);
+		expect(isInFolder("notes-old/a.md", "notes")).toBe(false);
+		expect(isInFolder("a.md", "")).toBe(true);
+	});
+});
+
+describe("vault migration", () => {
+	test("scans a folder, migrates, reports and reverts", async () => {
+		const files: Record<string, string> = {
+			"notes/a.md": "_a_ and _b_",
+			"notes/none.md": "*already* fine",
+			"other/c.md": "_c_",
+		};
+		const vault = makeVault(files);
+
+		const plans = await scanVault(vault, "notes", italicsOnly);
+		expect(plans.map((p) => p.file.path)).toEqual(["notes/a.md"]);
+
+		const { reports, manifest } = await runMigration(vault, plans);
+		expect(reports).toEqual([{ path: "notes/a.md", converted: 2, skipped: 0 }]);
+		expect(files["notes/a.md"]).toBe("*a* and *b*");
+		expect(files["other/c.md"]).toBe("_c_");
+		expect(manifest.files).toEqual([
+			{ path: "notes/a.md", before: "_a_ and _b_", after: "*a* and *b*" },
+		]);
+
+		const result = await revertMigration(vault, manifest);
+		expect(result).toEqual({ restored: ["notes/a.md"], conflicts: [] });
+		expect(files["notes/a.md"]).toBe("_a_ and _b_");
+	});
+
+	test("revert leaves notes edited after the migration alone", async () => {
+		const files: Record<string, string> = { "a.md": "_a_" };
+		const vault = makeVault(files);
+		const { manifest } = await runMigration(vault, await scanVault(vault, "", italicsOnly));
+		files["a.md"] = "*a* edited";
+
+		const result = await revertMigration(vault, manifest);
+		expect(result).toEqual({ restored: [], conflicts: ["a.md"] });
+		expect(files["a.md"]).toBe("*a* edited");
+	});
+});
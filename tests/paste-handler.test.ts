@@ -0,0 +1,163 @@
+import type { Editor } from "obsidian";
+import {
+	applyUnderlineMarkers,
+	handleUnderlinePaste,
+	markUnderlines,
+} from "../src/paste-handler";
+import { HTML_SYNTAX, PLUS_SYNTAX, UNDERSCORE_SYNTAX } from "../src/syntax";
+
+const UNDERSCORE = [UNDERSCORE_SYNTAX];
+
+/** Synthetic paste event — jsdom has no DataTransfer, so clipboardData is stubbed. */
+function makePasteEvent(data: Record<string, string>): ClipboardEvent {
+	const event = new Event("paste", { cancelable: true }) as ClipboardEvent;
+	Object.defineProperty(event, "clipboardData", {
+		value: { getData: (type: string) => data[type] ?? "" },
+	});
+	return event;
+}
+
+function makeEditor(): jest.Mocked<Editor> {
+	return { replaceSelection: jest.fn() } as unknown as jest.Mocked<Editor>;
+}
+
+// Stand-in for Obsidian's htmlToMarkdown: paragraphs, <em>, <strong>, text
+function toMarkdown(html: string): string {
+	const div = document.createElement("div");
+	div.innerHTML = html;
+	const walk = (node: Node): string => {
+		if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? "";
+		const el = node as Element;
+		const inner = Array.from(el.childNodes).map(walk).join("");
+		switch (el.tagName) {
+			case "EM": return `*${inner}*`;
+			case "STRONG": return `**${inner}**`;
+			case "P": return `${inner}\n\n`;
+			case "A": return `[${inner}](${el.getAttribute("href") ?? ""})`;
+			default: return inner;
+		}
+	};
+	return walk(div).trim();
+}
+
+function markdownFor(html: string): string {
+	const div = document.createElement("div");
+	div.innerHTML = html;
+	markUnderlines(div);
+	return applyUnderlineMarkers(toMarkdown(div.innerHTML));
+}
+
+describe("underline detection", () => {
+	test("<u> becomes _..._", () => {
+		expect(markdownFor("a <u>word</u> here")).toBe("a _word_ here");
+	});
+
+	test("<ins> becomes _..._", () => {
+		expect(markdownFor("a <ins>word</ins> here")).toBe("a _word_ here");
+	});
+
+	test("text-decoration: underline becomes _..._ (Google Docs)", () => {
+		expect(markdownFor('a <span style="text-decoration: underline">word</span> here')).toBe("a _word_ here");
+	});
+
+	test("text-decoration-line: underline becomes _..._ (Word)", () => {
+		expect(markdownFor('<span style="font-weight:400;text-decoration-line:underline">w</span>')).toBe("_w_");
+	});
+
+	test("other formatting is converted as usual", () => {
+		expect(markdownFor("<strong>bold</strong> <u><em>both</em></u>")).toBe("**bold** _*both*_");
+	});
+
+	test.each([
+		['<a href="https://x.com" style="text-decoration:underline">the doc</a>', "on the link"],
+		['<a href="https://x.com"><span style="text-decoration:underline">the doc</span></a>', "inside the link"],
+		['<span style="text-decoration:underline"><a href="https://x.com">the doc</a></span>', "wrapping the link"],
+		['<u><a href="https://x.com">the doc</a></u>', "as <u> around the link"],
+	])("link underlining is not an underline: %s (%s)", (html) => {
+		expect(markdownFor(`see ${html}`)).toBe("see [the doc](https://x.com)");
+	});
+
+	test("an underline around a link and more text still counts", () => {
+		expect(markdownFor('<u>read <a href="https://x.com">this</a> now</u>')).toBe("_read [this](https://x.com) now_");
+	});
+
+	test("nested underline elements produce one span", () => {
+		expect(markdownFor('<u>outer <span style="text-decoration:underline">inner</span></u>')).toBe("_outer inner_");
+	});
+});
+
+describe("boundary and __ guards", () => {
+	test("whitespace inside the underline moves outside the marks", () => {
+		expect(markdownFor("a<u> word </u>b")).toBe("a _word_ b");
+	});
+
+	test("empty or whitespace-only underlines get no marks", () => {
+		expect(markdownFor("a<u> </u>b<u></u>")).toBe("a b");
+	});
+
+	test("content starting or ending with _ gets no marks", () => {
+		expect(markdownFor("<u>_private</u>")).toBe("_private");
+	});
+
+	test("an adjacent underscore would form __, so no marks", () => {
+		expect(markdownFor("snake_<u>case</u>")).toBe("snake_case");
+	});
+
+	test("another syntax guards its own mark character", () => {
+		const div = document.createElement("div");
+		div.innerHTML = "a+<u>b</u> <u>c_</u>";
+		markUnderlines(div);
+		expect(applyUnderlineMarkers(toMarkdown(div.innerHTML), PLUS_SYNTAX)).toBe("a+b ++c_++");
+	});
+
+	test("an underline across paragraphs gets no marks", () => {
+		// The stand-in converter's paragraph newlines land before the closing marker
+		expect(markdownFor("<u><p>one</p><p>two</p></u>").trim()).toBe("one\n\ntwo");
+	});
+});
+
+describe("handleUnderlinePaste", () => {
+	test("inserts converted markdown and prevents the default paste", () => {
+		const editor = makeEditor();
+		const event = makePasteEvent({ "text/html": "<p>see <u>this</u></p>", "text/plain": "see this" });
+		expect(handleUnderlinePaste(event, editor, toMarkdown, UNDERSCORE)).toBe(true);
+		expect(event.defaultPrevented).toBe(true);
+		expect(editor.replaceSelection).toHaveBeenCalledWith("see _this_");
+	});
+
+	test("leaves pastes without underlines to Obsidian", () => {
+		const editor = makeEditor();
+		const event = makePasteEvent({ "text/html": "<p><strong>bold</strong></p>" });
+		expect(handleUnderlinePaste(event, editor, toMarkdown, UNDERSCORE)).toBe(false);
+		expect(event.defaultPrevented).toBe(false);
+		expect(editor.replaceSelection).not.toHaveBeenCalled();
+	});
+
+	test("leaves plain-text pastes to Obsidian", () => {
+		const editor = makeEditor();
+		const event = makePasteEvent({ "text/plain": "just text" });
+		expect(handleUnderlinePaste(event, editor, toMarkdown, UNDERSCORE)).toBe(false);
+	});
+
+	test("writes another enabled syntax where _ isn't underline", () => {
+		const editor = makeEditor();
+		const event = makePasteEvent({ "text/html": "<p>see <u>this</u></p>" });
+		expect(handleUnderlinePaste(event, editor, toMarkdown, [PLUS_SYNTAX, HTML_SYNTAX])).toBe(true);
+		expect(editor.replaceSelection).toHaveBeenCalledWith("see ++this++");
+	});
+
+	test("leaves the paste to Obsidian in a note without underline syntaxes", () => {
+		const editor = makeEditor();
+		const event = makePasteEvent({ "text/html": "<p>see <u>this</u></p>" });
+		expect(handleUnderlinePaste(event, editor, toMarkdown, [])).toBe(false);
+		expect(event.defaultPrevented).toBe(false);
+	});
+
+	test("does nothing when another handler already took the paste", () => {
+		const editor = makeEditor();
+		const event = makePasteEvent({ "text/html": "<u>x</u>" });
+		event.preventDefault();
+		expect(handleUnderlinePaste(event, editor, toMarkdown, UNDERSCORE)).toBe(false);
+		expect(editor.replaceSelection).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,101 @@
+import * as fs from "fs";
+import * as path from "path";
+import { MarkdownPostProcessorContext } from "obsidian";
+import { isExportRender, transformElement } from "../src/reading-mode";
+import { DEFAULT_SETTINGS, getEnabledSyntaxes, getUnderlineCssVariables } from "../src/settings";
+
+const source = "# Report\n\n_underlined_ and *italic*\n\n- item with _one_ and ++two++";
+
+// Export rendering comes without section info
+const exportCtx = { getSectionInfo: () => null } as unknown as MarkdownPostProcessorContext;
+
+/** Renders the note the way PDF export does: blocks inside body > .print. */
+function renderForExport(): HTMLElement {
+	const print = document.body.appendChild(document.createElement("div"));
+	print.className = "print";
+	const rendered = print.appendChild(document.createElement("div"));
+	rendered.className = "markdown-preview-view markdown-rendered";
+	rendered.innerHTML =
+		"<div><h1>Report</h1></div>" +
+		"<div><p><em>underlined</em> and <em>italic</em></p></div>" +
+		"<div><ul><li>item with <em>one</em> and ++two++</li></ul></div>";
+	const syntaxes = getEnabledSyntaxes({ ...DEFAULT_SETTINGS, syntaxes: ["underscore", "plus"] });
+	for (const block of Array.from(rendered.children) as HTMLElement[]) {
+		transformElement(block, exportCtx, syntaxes, source);
+	}
+	return print;
+}
+
+/** The style rules inside `@media print` of the plugin stylesheet. */
+function printRules(): CSSStyleRule[] {
+	const style = document.head.appendChild(document.createElement("style"));
+	style.textContent = fs.readFileSync(path.join(__dirname, "..", "styles.css"), "utf8");
+	const sheet = style.sheet as CSSStyleSheet;
+	return Array.from(sheet.cssRules)
+		.filter((rule): rule is CSSMediaRule => rule instanceof CSSMediaRule && rule.media.mediaText === "print")
+		.flatMap((media) => Array.from(media.cssRules) as CSSStyleRule[]);
+}
+
+/** The print declarations that apply to `el`, by property. */
+function printStyle(el: Element): Record<string, string> {
+	const style: Record<string, string> = {};
+	for (const rule of printRules()) {
+		if (!el.matches(rule.selectorText)) continue;
+		for (const property of Array.from(rule.style)) {
+			style[property] = rule.style.getPropertyValue(property);
+		}
+	}
+	return style;
+}
+
+afterEach(() => {
+	document.head.innerHTML = "";
+	document.body.innerHTML = "";
+});
+
+describe("PDF export", () => {
+	test("recognises the export container", () => {
+		const print = renderForExport();
+		expect(isExportRender(print.querySelector("p")!)).toBe(true);
+		expect(isExportRender(document.body.appendChild(document.createElement("p")))).toBe(false);
+	});
+
+	test("classifies every underline of the exported note", () => {
+		const print = renderForExport();
+		const underlined = Array.from(print.querySelectorAll(".underscore-em, .underscore-u")).map(
+			(el) => el.textContent,
+		);
+		expect(underlined).toEqual(["underlined", "one", "two"]);
+		expect(print.querySelector("em:not(.underscore-em)")).toHaveTextContent("italic");
+	});
+
+	test("the print stylesheet underlines them with the configured style", () => {
+		const print = renderForExport();
+		for (const el of Array.from(print.querySelectorAll(".underscore-em, .underscore-u"))) {
+			const style = printStyle(el);
+			expect(style["text-decoration-line"]).toBe("underline");
+			expect(style["text-decoration-style"]).toBe("var(--underscore-underline-style)");
+			expect(style["text-decoration-thickness"]).toBe("var(--underscore-print-thickness)");
+			expect(style["text-decoration-color"]).toBe("var(--underscore-underline-color)");
+			expect(style["text-decoration-skip-ink"]).toBe("none");
+		}
+		expect(printStyle(print.querySelector(".underscore-em")!)["font-style"]).toBe(
+			"var(--underscore-font-style)",
+		);
+	});
+
+	test("leaves other emphasis to the theme", () => {
+		const print = renderForExport();
+		expect(printStyle(print.querySelector("em:not(.underscore-em)")!)).toEqual({});
+	});
+
+	test("every variable the print rules use is set from the settings", () => {
+		const variables = getUnderlineCssVariables(DEFAULT_SETTINGS);
+		const used = printRules()
+			.flatMap((rule) => Array.from(rule.style).map((p) => rule.style.getPropertyValue(p)))
+			.flatMap((value) => Array.from(value.matchAll(/var\((--[\w-]+)\)/g), (m) => m[1]));
+		for (const name of used) {
+			expect(variables).toHaveProperty([name]);
+		}
+	});
+});
@@ -0,0 +1,128 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { runCli } from "../src/cli";
+import { NoteIndex, prepareMarkdown, renderNote, slugify } from "../src/publish";
+
+const index = new NoteIndex(["Home.md", "notes/Other.md", "notes/deep/Other.md", "img/pic one.png"]);
+const render = (markdown: string, className = "") => renderNote(markdown, "Home.md", index, { className }).trim();
+
+describe("renderNote — underlines", () => {
+	test("turns _text_ into <u> and leaves other emphasis alone", () => {
+		expect(render("_under_ *it* __bold__")).toBe(
+			"<p><u>under</u> <em>it</em> <strong>bold</strong></p>",
+		);
+	});
+
+	test("keeps formatting inside the underline", () => {
+		expect(render("_a **b** c_")).toBe("<p><u>a <strong>b</strong> c</u></p>");
+	});
+
+	test("uses the configured class", () => {
+		expect(render("_x_", "underline")).toBe('<p><u class="underline">x</u></p>');
+	});
+
+	test("uses the plugin's skip rules", () => {
+		const html = render("`_code_` $a_1$ [_link_](https://e.com/_x_) https://e.com/_y_ snake_case_name");
+		expect(html).not.toContain("<u>");
+	});
+
+	test("skips fenced code and frontmatter", () => {
+		const html = render("---\ntags: _x_\n---\n```\n_code_\n```\n_real_");
+		expect(html).toBe("<pre><code>_code_\n</code></pre>\n<p><u>real</u></p>");
+	});
+
+	test("never pairs marks across table cells", () => {
+		const html = render("| a | b |\n|---|---|\n| _c | d_ |");
+		expect(html).not.toContain("<u>");
+	});
+});
+
+describe("renderNote — wikilinks", () => {
+	test("resolves by name to a relative page link, preferring the shortest path", () => {
+		expect(render("[[Other]]")).toBe('<p><a href="notes/Other.html" class="internal-link">Other</a></p>');
+	});
+
+	test("resolves paths, aliases and headings", () => {
+		expect(render("[[notes/deep/Other#_Part_ Two|see]]")).toBe(
+			'<p><a href="notes/deep/Other.html#part-two" class="internal-link">see</a></p>',
+		);
+	});
+
+	test("links relative to the note's own folder", () => {
+		const html = renderNote("[[Home]]", "notes/deep/Other.md", index, { className: "" }).trim();
+		expect(html).toBe('<p><a href="../../Home.html" class="internal-link">Home</a></p>');
+	});
+
+	test("embeds images and encodes their path", () => {
+		expect(render("see ![[pic one.png]]")).toBe('<p>see <img src="img/pic%20one.png" alt="pic one.png"></p>');
+	});
+
+	test("marks unresolved links and leaves links in code alone", () => {
+		expect(render("[[Nowhere]] `[[Other]]`")).toBe(
+			'<p><span class="internal-link is-unresolved">Nowhere</span> <code>[[Other]]</code></p>',
+		);
+	});
+
+	test("handles the escaped alias pipe inside tables", () => {
+		expect(prepareMarkdown("| [[Other\\|o]] |", "Home.md", index)).toBe(
+			'| <a href="notes/Other.html" class="internal-link">o</a> |',
+		);
+	});
+});
+
+describe("slugify", () => {
+	test("agrees between headings and links", () => {
+		expect(slugify("<u>Part</u> Two")).toBe("part-two");
+		expect(slugify("_Part_ Two!")).toBe("part-two");
+	});
+
+	test("headings get ids that links point at", () => {
+		expect(render("## _Part_ Two\n## Part Two")).toBe(
+			'<h2 id="part-two"><u>Part</u> Two</h2>\n<h2 id="part-two-1">Part Two</h2>',
+		);
+	});
+});
+
+describe("runCli", () => {
+	let root: string;
+
+	beforeEach(async () => {
+		root = await fs.mkdtemp(join(tmpdir(), "underscore-publish-"));
+		await fs.mkdir(join(root, "vault", "notes"), { recursive: true });
+		await fs.mkdir(join(root, "vault", ".obsidian"));
+		await fs.writeFile(join(root, "vault", "Home.md"), "_hi_ [[Other]]");
+		await fs.writeFile(join(root, "vault", "notes", "Other.md"), "# Other");
+		await fs.writeFile(join(root, "vault", "notes", "pic.png"), "png");
+		await fs.writeFile(join(root, "vault", ".obsidian", "app.json"), "{}");
+	});
+
+	afterEach(async () => {
+		await fs.rm(root, { recursive: true, force: true });
+	});
+
+	test("writes a page per note, copies attachments and skips hidden folders", async () => {
+		const log = jest.fn();
+		const code = await runCli([join(root, "vault"), join(root, "site"), "--class", "u"], log);
+		expect(code).toBe(0);
+		expect(log).toHaveBeenCalledWith(`Wrote 2 pages to ${join(root, "site")}`);
+
+		const home = await fs.readFile(join(root, "site", "Home.html"), "utf8");
+		expect(home).toContain("<title>Home</title>");
+		expect(home).toContain('<u class="u">hi</u> <a href="notes/Other.html" class="internal-link">Other</a>');
+		expect(await fs.readFile(join(root, "site", "notes", "pic.png"), "utf8")).toBe("png");
+		await expect(fs.access(join(root, "site", ".obsidian"))).rejects.toThrow();
+	});
+
+	test("prints usage for missing arguments", async () => {
+		const error = jest.fn();
+		expect(await runCli([join(root, "vault")], jest.fn(), error)).toBe(2);
+		expect(error).toHaveBeenCalledWith(expect.stringContaining("Usage:"));
+	});
+
+	test("reports a missing input folder", async () => {
+		const error = jest.fn();
+		expect(await runCli([join(root, "nope"), join(root, "site")], jest.fn(), error)).toBe(1);
+		expect(error).toHaveBeenCalledWith(expect.stringContaining("nope"));
+	});
+});
@@ -1,4 +1,5 @@
-import { transformElement } from "../src/reading-mode";
+import { transformElement, transformTableCell } from "../src/reading-mode";
+import { HTML_SYNTAX, PLUS_SYNTAX, UNDERSCORE_SYNTAX, customSyntax } from "../src/syntax";
 import { MarkdownPostProcessorContext } from "obsidian";
 
 function makeCtx(source: string, lineStart = 0, lineEnd?: number): MarkdownPostProcessorContext {
@@ -117,4 +118,229 @@ describe("transformElement — reading mode", () => {
 		transformElement(li, ctx);
 		expect(em).toHaveClass("underscore-em");
 	});
+
+	test("matches a span that crosses a soft line break", () => {
+		const block = buildBlock("<em>a phrase\nthat continues</em> and <em>other</em>");
+		const ctx = makeCtx("_a phrase\nthat continues_ and *other*");
+		transformElement(block, ctx);
+		const ems = block.querySelectorAll("em");
+		expect(ems[0]).toHaveClass("underscore-em");
+		expect(ems[1]).not.toHaveClass("underscore-em");
+	});
+
+	test.each([
+		["_==hi==_ *b*", "<em><mark>hi</mark></em> <em>b</em>"],
+		["_a &amp; b_ *b*", "<em>a &amp; b</em> <em>b</em>"],
+		["_see $x$_ *b*", '<em>see <span class="math">x</span></em> <em>b</em>'],
+		["_a <b>x</b>_ *b*", "<em>a <b>x</b></em> <em>b</em>"],
+	])("pairs %s with its <em> by order, whatever the content renders to", (source, html) => {
+		const block = buildBlock(html);
+		transformElement(block, makeCtx(source));
+		const ems = block.querySelectorAll("em");
+		expect(ems[0]).toHaveClass("underscore-em");
+		expect(ems[1]).not.toHaveClass("underscore-em");
+	});
+
+	test("pairs by order with nested emphasis", () => {
+		const block = buildBlock("<em>a <em>b</em> c</em>");
+		transformElement(block, makeCtx("*a _b_ c*"));
+		const ems = block.querySelectorAll("em");
+		expect(ems[0]).not.toHaveClass("underscore-em");
+		expect(ems[1]).toHaveClass("underscore-em");
+	});
+
+	test("does not pair underscores across list items", () => {
+		const block = buildBlock("<li>_one</li><li>two_ <em>x</em></li>");
+		const ctx = makeCtx("- _one\n- two_ *x*");
+		transformElement(block, ctx);
+		const em = block.querySelector("em")!;
+		expect(em).not.toHaveClass("underscore-em");
+	});
+});
+
+describe("transformElement — configurable syntaxes", () => {
+	test("wraps ++text++ and drops the delimiters", () => {
+		const block = buildBlock("see ++this++ and ++that++");
+		transformElement(block, makeCtxNull(), [PLUS_SYNTAX]);
+		expect(block.innerHTML).toBe(
+			'see <span class="underscore-u">this</span> and <span class="underscore-u">that</span>',
+		);
+	});
+
+	test("a ++ span may contain formatting", () => {
+		const block = buildBlock("++a <strong>b</strong> c++");
+		transformElement(block, makeCtxNull(), [PLUS_SYNTAX]);
+		expect(block.innerHTML).toBe('<span class="underscore-u">a <strong>b</strong> c</span>');
+	});
+
+	test("leaves ++ in code alone", () => {
+		const block = buildBlock("<code>++a++</code>");
+		transformElement(block, makeCtxNull(), [PLUS_SYNTAX]);
+		expect(block.innerHTML).toBe("<code>++a++</code>");
+	});
+
+	test("styles rendered <u> elements", () => {
+		const block = buildBlock("<u>a</u> <code><u>b</u></code>");
+		transformElement(block, makeCtxNull(), [HTML_SYNTAX]);
+		const [outside, inside] = Array.from(block.querySelectorAll("u"));
+		expect(outside).toHaveClass("underscore-u");
+		expect(inside).not.toHaveClass("underscore-u");
+	});
+
+	test("handles a custom delimiter", () => {
+		const block = buildBlock("^^a^^");
+		transformElement(block, makeCtxNull(), [customSyntax("^^")!]);
+		expect(block.innerHTML).toBe('<span class="underscore-u">a</span>');
+	});
+
+	test("_text_ is left alone when underscore is disabled", () => {
+		const block = buildBlock("<em>a</em> ++b++");
+		transformElement(block, makeCtx("_a_ ++b++"), [PLUS_SYNTAX]);
+		expect(block.querySelector("em")).not.toHaveClass("underscore-em");
+		expect(block.querySelector(".underscore-u")).toHaveTextContent("b");
+	});
+
+	test("several syntaxes at once", () => {
+		const block = buildBlock("<em>a</em> ++b++");
+		transformElement(block, makeCtx("_a_ ++b++"), [UNDERSCORE_SYNTAX, PLUS_SYNTAX]);
+		expect(block.querySelector("em")).toHaveClass("underscore-em");
+		expect(block.querySelector(".underscore-u")).toHaveTextContent("b");
+	});
+});
+
+describe("tables", () => {
+	const source = "| _Name_ | *Notes* | More |\n| --- | --- | --- |\n| *x* and _y_ | _a | b_ |";
+
+	function buildTable(): HTMLElement {
+		const div = document.createElement("div");
+		div.innerHTML =
+			"<table><thead><tr><th><em>Name</em></th><th><em>Notes</em></th><th>More</th></tr></thead>" +
+			"<tbody><tr><td><em>x</em> and <em>y</em></td><td>_a</td><td>b_</td></tr></tbody></table>";
+		return div;
+	}
+
+	test("classifies emphasis cell by cell when the section is the whole table", () => {
+		const table = buildTable();
+		transformElement(table, makeCtx(source));
+		const classified = Array.from(table.querySelectorAll("em")).map((em) => em.classList.contains("underscore-em"));
+		expect(classified).toEqual([true, false, false, true]);
+	});
+
+	test("classifies a single cell against its own source", () => {
+		const cell = document.createElement("td");
+		cell.innerHTML = "<em>x</em> <em>y</em> ++z++";
+		transformTableCell(cell, " *x* _y_ ++z++ ", [UNDERSCORE_SYNTAX, PLUS_SYNTAX]);
+		const [x, y] = Array.from(cell.querySelectorAll("em"));
+		expect(x).not.toHaveClass("underscore-em");
+		expect(y).toHaveClass("underscore-em");
+		expect(cell.querySelector(".underscore-u")).toHaveTextContent("z");
+	});
+});
+
+describe("transformElement — without section info", () => {
+	test("classifies emphasis against the source it was rendered from", () => {
+		const block = buildBlock("<em>b</em> and <em>c</em>");
+		transformElement(block, makeCtxNull(), [UNDERSCORE_SYNTAX], "# Note\n\n*a*\n\n_b_ and *c*\n");
+		const [b, c] = Array.from(block.querySelectorAll("em"));
+		expect(b).toHaveClass("underscore-em");
+		expect(c).not.toHaveClass("underscore-em");
+	});
+
+	test("picks the place in the source that pairs the most <em>s", () => {
+		// "x" appears twice; only the second occurrence is followed by _y_
+		const block = buildBlock("<em>x</em> <em>y</em>");
+		transformElement(block, makeCtxNull(), [UNDERSCORE_SYNTAX], "*x* *z*\n\n_x_ _y_");
+		const [x, y] = Array.from(block.querySelectorAll("em"));
+		expect(x).toHaveClass("underscore-em");
+		expect(y).toHaveClass("underscore-em");
+	});
+
+	test("finds the block's own paragraph even when an earlier one has the same emphasis", () => {
+		const block = buildBlock("<em>same</em> later");
+		transformElement(block, makeCtxNull(), [UNDERSCORE_SYNTAX], "*same* first\n\n_same_ later");
+		expect(block.querySelector("em")).toHaveClass("underscore-em");
+	});
+
+	test("classifies by order within the paragraph, not by text across the note", () => {
+		const block = buildBlock("<em>a</em> then <em>a</em>");
+		transformElement(block, makeCtxNull(), [UNDERSCORE_SYNTAX], "_a_ elsewhere\n\n*a* then _a_");
+		const [first, second] = Array.from(block.querySelectorAll("em"));
+		expect(first).not.toHaveClass("underscore-em");
+		expect(second).toHaveClass("underscore-em");
+	});
+
+	test("matches list items and headings without their markers", () => {
+		const list = buildBlock("<ul>\n<li><em>x</em> one</li>\n<li>two <em>y</em></li>\n</ul>");
+		transformElement(list, makeCtxNull(), [UNDERSCORE_SYNTAX], "*x* one\n\n- _x_ one\n- two *y* ^id");
+		const [x, y] = Array.from(list.querySelectorAll("em"));
+		expect(x).toHaveClass("underscore-em");
+		expect(y).not.toHaveClass("underscore-em");
+
+		const heading = buildBlock("<h2><em>t</em> title</h2>");
+		transformElement(heading, makeCtxNull(), [UNDERSCORE_SYNTAX], "*t* title body\n\n## _t_ title ##");
+		expect(heading.querySelector("em")).toHaveClass("underscore-em");
+	});
+
+	test("leaves emphasis alone when its paragraph isn't in the source", () => {
+		const block = buildBlock("<em>a</em> elsewhere");
+		transformElement(block, makeCtxNull(), [UNDERSCORE_SYNTAX], "_a_ here");
+		expect(block.querySelector("em")).not.toHaveClass("underscore-em");
+	});
+
+	test("leaves emphasis alone when there is no source", () => {
+		const block = buildBlock("<em>a</em>");
+		transformElement(block, makeCtxNull(), [UNDERSCORE_SYNTAX]);
+		expect(block.querySelector("em")).not.toHaveClass("underscore-em");
+	});
+});
+
+describe("transformElement — rendering profiles", () => {
+	const syntaxes = [UNDERSCORE_SYNTAX, PLUS_SYNTAX, HTML_SYNTAX];
+	const render = (html: string, source: string, profile: "hidden" | "dimmed" | "italic" | "raw") => {
+		const block = buildBlock(html);
+		transformElement(block, makeCtx(source), syntaxes, null, profile);
+		return block;
+	};
+
+	test("hidden underlines without marks", () => {
+		const block = render("<em>a</em> ++b++", "_a_ ++b++", "hidden");
+		expect(block.innerHTML).toBe('<em class="underscore-em">a</em> <span class="underscore-u">b</span>');
+	});
+
+	test("dimmed records each syntax's marks for styles.css", () => {
+		const block = render("<em>a</em> ++b++ <u>c</u>", "_a_ ++b++ <u>c</u>", "dimmed");
+		const [em, span, u] = Array.from(block.children) as HTMLElement[];
+		expect(em).toHaveClass("underscore-em", "underscore-marks");
+		expect([em.dataset.underscoreOpen, em.dataset.underscoreClose]).toEqual(["_", "_"]);
+		expect([span.dataset.underscoreOpen, span.dataset.underscoreClose]).toEqual(["++", "++"]);
+		expect(u).toHaveClass("underscore-u", "underscore-marks");
+		expect(u.dataset.underscoreClose).toBe("</u>");
+	});
+
+	test("italic styles every syntax as italics instead", () => {
+		const block = render("<em>a</em> ++b++ <em>c</em>", "_a_ ++b++ *c*", "italic");
+		expect(block.innerHTML).toBe(
+			'<em class="underscore-italic">a</em> <span class="underscore-italic">b</span> <em>c</em>',
+		);
+	});
+
+	test("raw shows the marks as text", () => {
+		const block = render("<em>a <strong>b</strong></em> ++c++ <u>d</u>", "_a **b**_ ++c++ <u>d</u>", "raw");
+		expect(block.innerHTML).toBe("_a <strong>b</strong>_ ++c++ &lt;u&gt;d&lt;/u&gt;");
+	});
+
+	test("table cells take a profile too", () => {
+		const cell = document.createElement("td");
+		cell.innerHTML = "<em>x</em>";
+		transformTableCell(cell, "_x_", [UNDERSCORE_SYNTAX], "italic");
+		expect(cell.querySelector("em")).toHaveClass("underscore-italic");
+	});
+
+	test("processing again with another profile replaces the classes", () => {
+		const cell = document.createElement("td");
+		cell.innerHTML = "<em>x</em>";
+		transformTableCell(cell, "_x_", [UNDERSCORE_SYNTAX], "italic");
+		transformTableCell(cell, "_x_", [UNDERSCORE_SYNTAX], "hidden");
+		expect(cell.querySelector("em")?.className).toBe("underscore-em");
+	});
 });
@@ -0,0 +1,106 @@
+import type { App, CachedMetadata, TFile } from "obsidian";
+import { getCanvasText, getSubpathRange, resolveRenderedSource } from "../src/rendered-source";
+
+const note = "intro _a_\n# One\n_b_\n## Sub\n_c_ ^blk\n# Two\n*d*";
+
+const offset = (text: string) => note.indexOf(text);
+const pos = (from: number, to: number) => ({
+	start: { line: 0, col: 0, offset: from },
+	end: { line: 0, col: 0, offset: to },
+});
+
+const cache = {
+	headings: [
+		{ heading: "One", level: 1, position: pos(offset("# One"), offset("# One") + 5) },
+		{ heading: "Sub", level: 2, position: pos(offset("## Sub"), offset("## Sub") + 6) },
+		{ heading: "Two", level: 1, position: pos(offset("# Two"), offset("# Two") + 5) },
+	],
+	blocks: { blk: { id: "blk", position: pos(offset("_c_"), offset("_c_") + 8) } },
+} as unknown as CachedMetadata;
+
+describe("getSubpathRange", () => {
+	test("a heading runs to the next heading of the same level", () => {
+		const range = getSubpathRange(cache, "#One", note.length)!;
+		expect(note.slice(range.from, range.to)).toBe("# One\n_b_\n## Sub\n_c_ ^blk\n");
+	});
+
+	test("nested heading paths resolve to the last heading", () => {
+		const range = getSubpathRange(cache, "#One#Sub", note.length)!;
+		expect(note.slice(range.from, range.to)).toBe("## Sub\n_c_ ^blk\n");
+	});
+
+	test("the last heading runs to the end of the note", () => {
+		const range = getSubpathRange(cache, "#Two", note.length)!;
+		expect(note.slice(range.from, range.to)).toBe("# Two\n*d*");
+	});
+
+	test("block references cover the block", () => {
+		const range = getSubpathRange(cache, "#^blk", note.length)!;
+		expect(note.slice(range.from, range.to)).toBe("_c_ ^blk");
+	});
+
+	test("returns null for unknown subpaths", () => {
+		expect(getSubpathRange(cache, "#Missing", note.length)).toBeNull();
+		expect(getSubpathRange(cache, "#^nope", note.length)).toBeNull();
+	});
+});
+
+describe("getCanvasText", () => {
+	test("joins the text cards and ignores other nodes", () => {
+		const canvas = JSON.stringify({
+			nodes: [
+				{ type: "text", text: "_one_" },
+				{ type: "file", file: "a.md" },
+				{ type: "text", text: "*two*" },
+			],
+		});
+		expect(getCanvasText(canvas)).toBe("_one_\n\n*two*");
+	});
+
+	test("returns nothing for invalid JSON", () => {
+		expect(getCanvasText("{")).toBe("");
+	});
+});
+
+describe("resolveRenderedSource", () => {
+	const files: Record<string, string> = {
+		"note.md": note,
+		"board.canvas": JSON.stringify({ nodes: [{ type: "text", text: "_card_" }] }),
+		"image.png": "",
+	};
+	const file = (path: string) => ({ path, extension: path.split(".").pop() }) as TFile;
+	const app = {
+		vault: {
+			getFileByPath: (path: string) => (path in files ? file(path) : null),
+			cachedRead: async (f: TFile) => files[f.path],
+		},
+		metadataCache: {
+			getFirstLinkpathDest: (linkpath: string) => (`${linkpath}.md` in files ? file(`${linkpath}.md`) : null),
+			getFileCache: () => cache,
+		},
+	} as unknown as App;
+
+	test("reads the whole note", async () => {
+		const el = document.createElement("p");
+		expect(await resolveRenderedSource(app, el, "note.md")).toBe(note);
+	});
+
+	test("reads only the embedded section of an embed", async () => {
+		const embed = document.createElement("span");
+		embed.className = "internal-embed";
+		embed.setAttribute("src", "note#Two");
+		const el = embed.appendChild(document.createElement("p"));
+		expect(await resolveRenderedSource(app, el, "other.md")).toBe("# Two\n*d*");
+	});
+
+	test("reads the text cards of a canvas", async () => {
+		const el = document.createElement("p");
+		expect(await resolveRenderedSource(app, el, "board.canvas")).toBe("_card_");
+	});
+
+	test("returns null for missing and non-markdown files", async () => {
+		const el = document.createElement("p");
+		expect(await resolveRenderedSource(app, el, "missing.md")).toBeNull();
+		expect(await resolveRenderedSource(app, el, "image.png")).toBeNull();
+	});
+});
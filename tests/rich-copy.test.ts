@@ -0,0 +1,152 @@
+import type { Editor } from "obsidian";
+import {
+	getReadingSelectionPayload,
+	handleCopyEvent,
+	stripUnderlineMarks,
+	underlineToHtml,
+	underscoreEmToU,
+} from "../src/rich-copy";
+import { HTML_SYNTAX, PLUS_SYNTAX, UNDERSCORE_SYNTAX, customSyntax } from "../src/syntax";
+
+const UNDERSCORE = [UNDERSCORE_SYNTAX];
+
+function select(node: Node, from?: number, to?: number): Selection {
+	const range = document.createRange();
+	if (from === undefined) {
+		range.selectNodeContents(node);
+	} else {
+		range.setStart(node, from);
+		range.setEnd(node, to ?? from);
+	}
+	const selection = window.getSelection()!;
+	selection.removeAllRanges();
+	selection.addRange(range);
+	return selection;
+}
+
+describe("underlineToHtml", () => {
+	test("turns underline spans into <u> and leaves other markdown alone", () => {
+		expect(underlineToHtml("_a_ and *b* and **c**", UNDERSCORE)).toBe("<u>a</u> and *b* and **c**");
+	});
+
+	test("leaves underscores in code, math and links untouched", () => {
+		expect(underlineToHtml("`_x_` $a_1$ [[my_note]] _y_", UNDERSCORE)).toBe("`_x_` $a_1$ [[my_note]] <u>y</u>");
+	});
+
+	test("leaves fenced code blocks untouched", () => {
+		expect(underlineToHtml("```\n_x_\n```\n_y_", UNDERSCORE)).toBe("```\n_x_\n```\n<u>y</u>");
+	});
+
+	test("ignores intraword underscores and __strong__", () => {
+		expect(underlineToHtml("snake_case_name __bold__", UNDERSCORE)).toBe("snake_case_name __bold__");
+	});
+
+	test("converts every syntax of the note", () => {
+		const syntaxes = [UNDERSCORE_SYNTAX, PLUS_SYNTAX, HTML_SYNTAX, customSyntax("^^")!];
+		expect(underlineToHtml("_a_ ++b++ <u>c</u> ^^d^^ `++e++`", syntaxes)).toBe(
+			"<u>a</u> <u>b</u> <u>c</u> <u>d</u> `++e++`",
+		);
+	});
+
+	test("leaves _text_ alone in notes that opted out of underscore", () => {
+		expect(underlineToHtml("_a_ ++b++", [PLUS_SYNTAX])).toBe("_a_ <u>b</u>");
+	});
+
+	test("handles spans of different syntaxes nested in each other", () => {
+		expect(underlineToHtml("_a ++b++ c_", [UNDERSCORE_SYNTAX, PLUS_SYNTAX])).toBe("<u>a <u>b</u> c</u>");
+	});
+});
+
+describe("stripUnderlineMarks", () => {
+	test("removes only the marks of underline spans", () => {
+		expect(stripUnderlineMarks("_one_ *two* snake_case", UNDERSCORE)).toBe("one *two* snake_case");
+	});
+
+	test("handles several spans on several lines", () => {
+		expect(stripUnderlineMarks("_a_ _b_\n_c_", UNDERSCORE)).toBe("a b\nc");
+	});
+
+	test("removes the marks of every syntax of the note", () => {
+		expect(stripUnderlineMarks("_a_ ++b++ <u>c</u>", [PLUS_SYNTAX, HTML_SYNTAX])).toBe("_a_ b c");
+	});
+});
+
+describe("underscoreEmToU", () => {
+	test("replaces .underscore-em with <u>, keeping children", () => {
+		const div = document.createElement("div");
+		div.innerHTML = '<em class="underscore-em"><strong>x</strong></em> <em>y</em>';
+		underscoreEmToU(div);
+		expect(div.innerHTML).toBe("<u><strong>x</strong></u> <em>y</em>");
+	});
+});
+
+describe("getReadingSelectionPayload", () => {
+	afterEach(() => {
+		document.body.innerHTML = "";
+	});
+
+	test("converts underline elements in the selection", () => {
+		const p = document.createElement("p");
+		p.innerHTML = 'plain <em class="underscore-em">under</em> <em>italic</em>';
+		document.body.appendChild(p);
+		const payload = getReadingSelectionPayload(select(p));
+		expect(payload).toEqual({
+			html: "plain <u>under</u> <em>italic</em>",
+			plain: "plain under italic",
+		});
+	});
+
+	test("a selection inside one underline still copies as underline", () => {
+		const p = document.createElement("p");
+		p.innerHTML = '<em class="underscore-em">underlined words</em>';
+		document.body.appendChild(p);
+		const text = p.querySelector("em")!.firstChild!;
+		const payload = getReadingSelectionPayload(select(text, 0, 10));
+		expect(payload).toEqual({ html: "<u>underlined</u>", plain: "underlined" });
+	});
+
+	test("returns null when the selection holds no underline", () => {
+		const p = document.createElement("p");
+		p.innerHTML = "only <em>italic</em>";
+		document.body.appendChild(p);
+		expect(getReadingSelectionPayload(select(p))).toBeNull();
+	});
+});
+
+describe("handleCopyEvent", () => {
+	afterEach(() => {
+		document.body.innerHTML = "";
+	});
+
+	function copyFromEditor(markdown: string) {
+		const editorEl = document.createElement("div");
+		editorEl.className = "cm-editor";
+		document.body.appendChild(editorEl);
+		const setData = jest.fn();
+		const event = {
+			target: editorEl,
+			clipboardData: { setData },
+			preventDefault: jest.fn(),
+		} as unknown as ClipboardEvent;
+		const editor = { somethingSelected: () => true, getSelection: () => markdown } as unknown as Editor;
+		return { event, editor, setData };
+	}
+
+	test("writes the plain text at once and returns the deferred HTML write", async () => {
+		const { event, editor, setData } = copyFromEditor("_a_ b");
+		const write = handleCopyEvent(event, editor, async (md) => md, UNDERSCORE);
+		expect(setData).toHaveBeenCalledWith("text/plain", "a b");
+		// jsdom has no clipboard API, so the late write fails and the caller sees it
+		await expect(write).rejects.toBeDefined();
+	});
+
+	test("skips the deferred write when another copy happened meanwhile", async () => {
+		const first = copyFromEditor("_a_");
+		let finish: (html: string) => void = () => undefined;
+		const write = handleCopyEvent(first.event, first.editor, () => new Promise((r) => (finish = r)), UNDERSCORE);
+		const second = copyFromEditor("plain");
+		expect(handleCopyEvent(second.event, second.editor, async (md) => md, UNDERSCORE)).toBeNull();
+		finish("<u>a</u>");
+		await expect(write).resolves.toBeUndefined();
+	});
+});
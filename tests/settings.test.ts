@@ -0,0 +1,85 @@
+import {
+	DEFAULT_SETTINGS,
+	getEnabledSyntaxes,
+	getToggleSyntax,
+	getUnderlineCssVariables,
+} from "../src/settings";
+import { customSyntax, delimiterRunChar, PLUS_SYNTAX, HTML_SYNTAX } from "../src/syntax";
+
+describe("getUnderlineCssVariables", () => {
+	test("defaults produce a plain solid underline in the text color", () => {
+		expect(getUnderlineCssVariables(DEFAULT_SETTINGS)).toEqual({
+			"--underscore-underline-style": "solid",
+			"--underscore-underline-thickness": "auto",
+			"--underscore-print-thickness": "max(1px, 0.06em)",
+			"--underscore-underline-offset": "auto",
+			"--underscore-underline-color": "currentColor",
+			"--underscore-font-style": "normal",
+		});
+	});
+
+	test("thickness and offset are emitted in px when non-zero", () => {
+		const vars = getUnderlineCssVariables({ ...DEFAULT_SETTINGS, thickness: 2, offset: 3 });
+		expect(vars["--underscore-underline-thickness"]).toBe("2px");
+		expect(vars["--underscore-print-thickness"]).toBe("2px");
+		expect(vars["--underscore-underline-offset"]).toBe("3px");
+	});
+
+	test("accent color mode uses the theme accent variable", () => {
+		const vars = getUnderlineCssVariables({ ...DEFAULT_SETTINGS, colorMode: "accent" });
+		expect(vars["--underscore-underline-color"]).toBe("var(--text-accent)");
+	});
+
+	test("custom color mode uses the custom color", () => {
+		const vars = getUnderlineCssVariables({
+			...DEFAULT_SETTINGS,
+			colorMode: "custom",
+			customColor: "#ff0000",
+		});
+		expect(vars["--underscore-underline-color"]).toBe("#ff0000");
+	});
+
+	test("keepItalic keeps the italic font style", () => {
+		const vars = getUnderlineCssVariables({ ...DEFAULT_SETTINGS, style: "wavy", keepItalic: true });
+		expect(vars["--underscore-underline-style"]).toBe("wavy");
+		expect(vars["--underscore-font-style"]).toBe("italic");
+	});
+});
+
+describe("underline syntaxes", () => {
+	test("only _text_ is enabled by default", () => {
+		expect(getEnabledSyntaxes(DEFAULT_SETTINGS).map((s) => s.open)).toEqual(["_"]);
+		expect(getToggleSyntax(DEFAULT_SETTINGS)?.open).toBe("_");
+	});
+
+	test("enabled syntaxes come in a fixed order", () => {
+		const settings = { ...DEFAULT_SETTINGS, syntaxes: ["html" as const, "plus" as const] };
+		expect(getEnabledSyntaxes(settings)).toEqual([PLUS_SYNTAX, HTML_SYNTAX]);
+	});
+
+	test("the custom syntax needs a usable delimiter", () => {
+		const settings = { ...DEFAULT_SETTINGS, syntaxes: ["custom" as const] };
+		expect(getEnabledSyntaxes({ ...settings, customDelimiter: "^^" })).toEqual([customSyntax("^^")]);
+		expect(getEnabledSyntaxes({ ...settings, customDelimiter: "" })).toEqual([]);
+		expect(customSyntax("a b")).toBeNull();
+		expect(customSyntax("**")).toBeNull();
+	});
+
+	test("toggle falls back to the first enabled syntax", () => {
+		const settings = { ...DEFAULT_SETTINGS, syntaxes: ["plus" as const], toggleSyntax: "html" as const };
+		expect(getToggleSyntax(settings)).toBe(PLUS_SYNTAX);
+		expect(getToggleSyntax({ ...settings, syntaxes: [] })).toBeNull();
+	});
+
+	test("toggle uses the syntaxes enabled in the note", () => {
+		const settings = { ...DEFAULT_SETTINGS, syntaxes: ["underscore" as const, "plus" as const] };
+		expect(getToggleSyntax(settings, [PLUS_SYNTAX])).toBe(PLUS_SYNTAX);
+		expect(getToggleSyntax(settings, [])).toBeNull();
+	});
+
+	test("delimiterRunChar only applies to repeated single characters", () => {
+		expect(delimiterRunChar(PLUS_SYNTAX)).toBe("+");
+		expect(delimiterRunChar(HTML_SYNTAX)).toBeNull();
+		expect(delimiterRunChar(customSyntax("^~")!)).toBeNull();
+	});
+});
@@ -0,0 +1,27 @@
+import { countUnderlineSpans, formatUnderlineStatus } from "../src/status-bar";
+import { HTML_SYNTAX, PLUS_SYNTAX, UNDERSCORE_SYNTAX } from "../src/syntax";
+
+describe("countUnderlineSpans", () => {
+	test("counts _text_ spans with the plugin's rules", () => {
+		const note = "---\ntitle: _x_\n---\n_one_ __bold__ *it* `_code_`\n\n```\n_fenced_\n```\n_two_";
+		expect(countUnderlineSpans(note, [UNDERSCORE_SYNTAX])).toBe(2);
+	});
+
+	test("adds up every enabled syntax", () => {
+		const note = "_a_ ++b++ <u>c</u>\n\n++d++";
+		expect(countUnderlineSpans(note, [UNDERSCORE_SYNTAX, PLUS_SYNTAX, HTML_SYNTAX])).toBe(4);
+		expect(countUnderlineSpans(note, [PLUS_SYNTAX])).toBe(2);
+	});
+
+	test("never pairs marks across paragraphs", () => {
+		expect(countUnderlineSpans("++a\n\nb++", [PLUS_SYNTAX])).toBe(0);
+	});
+});
+
+describe("formatUnderlineStatus", () => {
+	test("shows the count, and whether the cursor is in an underline", () => {
+		expect(formatUnderlineStatus(false, 3)).toBe("3 underlines");
+		expect(formatUnderlineStatus(true, 1)).toBe("Underlined · 1 underline");
+		expect(formatUnderlineStatus(false, 0)).toBe("0 underlines");
+	});
+});
@@ -0,0 +1,84 @@
+import { EditorState, Extension, RangeSetBuilder, StateField } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, WidgetType } from "@codemirror/view";
+import { underlineSyntaxes } from "../src/editor-decoration";
+import { PLUS_SYNTAX, UNDERSCORE_SYNTAX } from "../src/syntax";
+import { tableWidgetPlugin } from "../src/table-widget";
+
+/** Stands in for Obsidian's table widget: the rendered table, without section info. */
+class FakeTableWidget extends WidgetType {
+	constructor(private html: string) {
+		super();
+	}
+
+	toDOM(): HTMLElement {
+		const div = document.createElement("div");
+		div.className = "cm-table-widget";
+		div.innerHTML = this.html;
+		return div;
+	}
+}
+
+/** Replaces lines [first, last] (1-based) of the doc with the widget. */
+function tableWidget(first: number, last: number, html: string): Extension {
+	return StateField.define<DecorationSet>({
+		create(state) {
+			const builder = new RangeSetBuilder<Decoration>();
+			builder.add(
+				state.doc.line(first).from,
+				state.doc.line(last).to,
+				Decoration.replace({ widget: new FakeTableWidget(html), block: true }),
+			);
+			return builder.finish();
+		},
+		update: (value) => value,
+		provide: (field) => EditorView.decorations.from(field),
+	});
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+afterEach(() => {
+	document.body.innerHTML = "";
+});
+
+describe("tableWidgetPlugin", () => {
+	const doc = "intro\n\n| _Name_ | *Notes* |\n| --- | --- |\n| _x_ ++y++ | *z* |";
+	const html =
+		"<table><thead><tr><th><em>Name</em></th><th><em>Notes</em></th></tr></thead>" +
+		"<tbody><tr><td><em>x</em> ++y++</td><td><em>z</em></td></tr></tbody></table>";
+
+	function makeView(extensions: Extension[]): EditorView {
+		const parent = document.createElement("div");
+		document.body.appendChild(parent);
+		return new EditorView({
+			state: EditorState.create({ doc, extensions: [tableWidget(3, 5, html), tableWidgetPlugin, ...extensions] }),
+			parent,
+		});
+	}
+
+	test("classifies the cells of a table widget against the table source", async () => {
+		const view = makeView([underlineSyntaxes.of([UNDERSCORE_SYNTAX, PLUS_SYNTAX])]);
+		await flush();
+		const ems = Array.from(view.contentDOM.querySelectorAll("em"));
+		expect(ems.map((em) => em.classList.contains("underscore-em"))).toEqual([true, false, true, false]);
+		expect(view.contentDOM.querySelector(".underscore-u")).toHaveTextContent("y");
+	});
+
+	test("classifies a cell again when it re-renders", async () => {
+		const view = makeView([]);
+		await flush();
+		const cell = view.contentDOM.querySelector("td")!;
+		cell.innerHTML = "<em>x</em> ++y++";
+		await flush();
+		expect(cell.querySelector("em")).toHaveClass("underscore-em");
+	});
+
+	test("leaves a cell with a nested editor alone", async () => {
+		const view = makeView([]);
+		await flush();
+		const cell = view.contentDOM.querySelector("td")!;
+		cell.innerHTML = '<div class="cm-editor"><em>x</em></div>';
+		await flush();
+		expect(cell.querySelector("em")).not.toHaveClass("underscore-em");
+	});
+});
@@ -2,13 +2,16 @@ import { toggleUnderlineCommand } from "../src/toggle-command";
 import { detectWordRange } from "../src/toggle-command";
 import { getUnderlineState } from "../src/toggle-command";
 import { applySingleLineToggle } from "../src/toggle-command";
-import { applyMultiLineToggle, countUnderlinedLines } from "../src/toggle-command";
-import type { Editor, EditorPosition } from "obsidian";
+import { applyMultiLineToggle, applySpanToggle, countUnderlinedChars } from "../src/toggle-command";
+import { getToggleTarget, isSelectionUnderlined, setUnderline } from "../src/toggle-command";
+import type { Editor, EditorPosition, EditorSelection, EditorTransaction } from "obsidian";
+import { HTML_SYNTAX, PLUS_SYNTAX } from "../src/syntax";
 
 function makeEditor(
 	lines: string[],
 	selFrom: EditorPosition,
 	selTo: EditorPosition,
+	selections: EditorSelection[] = [{ anchor: selFrom, head: selTo }],
 ): jest.Mocked<Editor> {
 	const currentLines = [...lines];
 	const editor = {
@@ -23,6 +26,7 @@ function makeEditor(
 			return selFrom;
 		}),
 		getLine: jest.fn((n: number) => currentLines[n]),
+		lineCount: jest.fn(() => currentLines.length),
 		replaceRange: jest.fn(
 			(text: string, from: EditorPosition, to?: EditorPosition) => {
 				const toPos = to ?? from;
@@ -38,12 +42,32 @@ function makeEditor(
 			currentLines[selFrom.line] = line.slice(0, selFrom.ch) + text + line.slice(selTo.ch);
 		}),
 		setSelection: jest.fn(),
+		setSelections: jest.fn(),
 		setCursor: jest.fn(),
-		listSelections: jest.fn(() => [{ anchor: selFrom, head: selTo }]),
+		listSelections: jest.fn(() => selections),
+		transaction: jest.fn((tx: EditorTransaction) => {
+			// Changes are in the original text's coordinates: apply the last one first
+			const changes = [...(tx.changes ?? [])].sort(
+				(a, b) => b.from.line - a.from.line || b.from.ch - a.from.ch,
+			);
+			for (const { text, from, to } of changes) {
+				const line = currentLines[from.line];
+				currentLines[from.line] = line.slice(0, from.ch) + text + line.slice((to ?? from).ch);
+			}
+			if (tx.selections) {
+				editor.setSelections(tx.selections.map(({ from, to }) => ({ anchor: from, head: to ?? from })));
+			}
+		}),
 	} as unknown as jest.Mocked<Editor>;
 	return editor;
 }
 
+/** The changes of the command's single transaction. */
+function changesOf(editor: jest.Mocked<Editor>) {
+	expect(editor.transaction).toHaveBeenCalledTimes(1);
+	return editor.transaction.mock.calls[0][0].changes;
+}
+
 describe("detectWordRange", () => {
 	it("expands cursor to word in middle of word", () => {
 		// "hello world" cursor at ch=8 (inside "world")
@@ -205,71 +229,107 @@ describe("applySingleLineToggle", () => {
 		applySingleLineToggle(editor, 0, 1, 1);
 		expect(editor.replaceRange).not.toHaveBeenCalled();
 	});
+
+	it("leaves trailing whitespace outside the marks", () => {
+		const editor = makeEditor(["hello world"], { line: 0, ch: 0 }, { line: 0, ch: 6 });
+		applySingleLineToggle(editor, 0, 0, 6);
+		expect(editor.getLine(0)).toBe("_hello_ world");
+		expect(editor.setSelection).toHaveBeenCalledWith({ line: 0, ch: 7 }, { line: 0, ch: 7 });
+	});
+
+	it("widens part of a word to the whole word", () => {
+		const editor = makeEditor(["abcdef"], { line: 0, ch: 2 }, { line: 0, ch: 4 });
+		applySingleLineToggle(editor, 0, 2, 4);
+		expect(editor.getLine(0)).toBe("_abcdef_");
+		expect(editor.setSelection).toHaveBeenCalledWith({ line: 0, ch: 8 }, { line: 0, ch: 8 });
+	});
+
+	it("does nothing for a selection of only whitespace", () => {
+		const editor = makeEditor(["a   b"], { line: 0, ch: 1 }, { line: 0, ch: 4 });
+		applySingleLineToggle(editor, 0, 1, 4);
+		expect(editor.replaceRange).not.toHaveBeenCalled();
+		expect(editor.setSelection).not.toHaveBeenCalled();
+	});
 });
 
-describe("countUnderlinedLines", () => {
-	it("counts underlined lines correctly across a selection", () => {
+describe("countUnderlinedChars", () => {
+	it("counts underlined characters across a selection", () => {
 		const editor = {
 			getLine: (n: number) => ["_first_", "plain", "_third_"][n],
+			lineCount: () => 3,
 		} as unknown as Editor;
-		// selFrom {0,0}, selTo {2,7} — full lines for all three
-		const result = countUnderlinedLines(
+		// selFrom {0,0}, selTo {2,7} — full lines for all three; marks don't count
+		const result = countUnderlinedChars(
 			editor,
 			{ line: 0, ch: 0 },
 			{ line: 2, ch: 7 },
 		);
-		expect(result).toEqual({ underlined: 2, total: 3 });
+		expect(result).toEqual({ underlined: 10, total: 15 });
 	});
 
-	it("excludes empty slices from the total count", () => {
+	it("excludes empty slices and whitespace from the total count", () => {
 		const editor = {
-			getLine: (n: number) => ["hello", "world"][n],
+			getLine: (n: number) => ["hello", "big world"][n],
+			lineCount: () => 2,
 		} as unknown as Editor;
-		// selFrom {0,5} (end of "hello"), selTo {1,5}
 		// Line 0 slice: ch5 to ch5 → empty → skipped
-		// Line 1 slice: ch0 to ch5 → "world" → not underlined
-		const result = countUnderlinedLines(
+		// Line 1 slice: "big world" → 8 characters, none underlined
+		const result = countUnderlinedChars(
 			editor,
 			{ line: 0, ch: 5 },
-			{ line: 1, ch: 5 },
+			{ line: 1, ch: 9 },
 		);
-		expect(result).toEqual({ underlined: 0, total: 1 });
+		expect(result).toEqual({ underlined: 0, total: 8 });
 	});
 });
 
 describe("applyMultiLineToggle", () => {
-	it("wraps each line's selected slice when majority is not underlined", () => {
+	it("wraps each line's selected slice when nothing is underlined", () => {
 		const editor = makeEditor(
 			["first line", "second line", "third line"],
 			{ line: 0, ch: 6 }, // selected slice of line 0: "line"
 			{ line: 2, ch: 5 }, // selected slice of line 2: "third"
 		);
 		applyMultiLineToggle(editor, { line: 0, ch: 6 }, { line: 2, ch: 5 });
-		// 0/3 underlined → shouldRemove=false → all 3 lines get wrapped
 		expect(editor.replaceRange).toHaveBeenCalledTimes(3);
+		expect(editor.getLine(0)).toBe("first _line_");
+		expect(editor.getLine(1)).toBe("_second line_");
+		expect(editor.getLine(2)).toBe("_third_ line");
 	});
 
-	it("unwraps lines when majority is underlined (2 of 3)", () => {
+	it("unwraps every line when every selected character is underlined", () => {
+		const editor = makeEditor(
+			["_first_", "_second_"],
+			{ line: 0, ch: 0 },
+			{ line: 1, ch: 8 },
+		);
+		const result = applyMultiLineToggle(editor, { line: 0, ch: 0 }, { line: 1, ch: 8 });
+		expect(editor.getLine(0)).toBe("first");
+		expect(editor.getLine(1)).toBe("second");
+		expect(result).toEqual({ anchor: { line: 0, ch: 0 }, head: { line: 1, ch: 6 } });
+	});
+
+	it("underlines the rest when only some characters are underlined", () => {
 		const editor = makeEditor(
 			["_first_", "_second_", "plain"],
 			{ line: 0, ch: 0 },
 			{ line: 2, ch: 5 },
 		);
 		applyMultiLineToggle(editor, { line: 0, ch: 0 }, { line: 2, ch: 5 });
-		// Lines 0,1 underlined; line 2 not → 2/3 → shouldRemove=true
-		// Only the 2 underlined lines get replaceRange called
-		expect(editor.replaceRange).toHaveBeenCalledTimes(2);
+		// Lines 0 and 1 already underlined; only line 2 changes
+		expect(editor.replaceRange).toHaveBeenCalledTimes(1);
+		expect(editor.getLine(2)).toBe("_plain_");
 	});
 
-	it("adds marks to non-underlined lines when minority is underlined (1 of 3)", () => {
+	it("extends a span that starts inside the selection", () => {
 		const editor = makeEditor(
-			["_first_", "plain", "also plain"],
+			["one", "two _three_ four"],
 			{ line: 0, ch: 0 },
-			{ line: 2, ch: 10 },
+			{ line: 1, ch: 16 },
 		);
-		applyMultiLineToggle(editor, { line: 0, ch: 0 }, { line: 2, ch: 10 });
-		// 1/3 underlined → shouldRemove=false → wrap the 2 non-underlined lines
-		expect(editor.replaceRange).toHaveBeenCalledTimes(2);
+		applyMultiLineToggle(editor, { line: 0, ch: 0 }, { line: 1, ch: 16 });
+		expect(editor.getLine(0)).toBe("_one_");
+		expect(editor.getLine(1)).toBe("_two three four_");
 	});
 });
 
@@ -283,11 +343,9 @@ describe("toggleUnderlineCommand", () => {
 		);
 		toggleUnderlineCommand(editor);
 		// detectWordRange("hello world", 8) → {from:6, to:11} → "world"
-		expect(editor.replaceRange).toHaveBeenCalledWith(
-			"_world_",
-			{ line: 0, ch: 6 },
-			{ line: 0, ch: 11 },
-		);
+		expect(changesOf(editor)).toEqual([
+			{ text: "_world_", from: { line: 0, ch: 6 }, to: { line: 0, ch: 11 } },
+		]);
 	});
 
 	it("uses single-line path when selection is on one line", () => {
@@ -297,11 +355,9 @@ describe("toggleUnderlineCommand", () => {
 			{ line: 0, ch: 11 },
 		);
 		toggleUnderlineCommand(editor);
-		expect(editor.replaceRange).toHaveBeenCalledWith(
-			"_world_",
-			{ line: 0, ch: 6 },
-			{ line: 0, ch: 11 },
-		);
+		expect(changesOf(editor)).toEqual([
+			{ text: "_world_", from: { line: 0, ch: 6 }, to: { line: 0, ch: 11 } },
+		]);
 	});
 
 	it("uses multi-line path when selection spans multiple lines", () => {
@@ -311,8 +367,9 @@ describe("toggleUnderlineCommand", () => {
 			{ line: 1, ch: 6 },
 		);
 		toggleUnderlineCommand(editor);
-		// Two lines, neither underlined → both get wrapped
-		expect(editor.replaceRange).toHaveBeenCalledTimes(2);
+		// Two lines, neither underlined → both get wrapped, in one transaction
+		expect(editor.transaction).toHaveBeenCalledTimes(1);
+		expect(changesOf(editor)).toHaveLength(2);
 	});
 
 	it("inserts __ and places cursor inside when cursor is on whitespace with no selection", () => {
@@ -323,8 +380,11 @@ describe("toggleUnderlineCommand", () => {
 			{ line: 0, ch: 5 },
 		);
 		toggleUnderlineCommand(editor);
-		expect(editor.replaceSelection).toHaveBeenCalledWith("__");
-		expect(editor.setCursor).toHaveBeenCalledWith({ line: 0, ch: 6 });
+		expect(changesOf(editor)).toEqual([{ text: "__", from: { line: 0, ch: 5 }, to: { line: 0, ch: 5 } }]);
+		expect(editor.getLine(0)).toBe("hello__ world");
+		expect(editor.setSelections).toHaveBeenCalledWith([
+			{ anchor: { line: 0, ch: 6 }, head: { line: 0, ch: 6 } },
+		]);
 	});
 
 	it("inserts __ and places cursor inside when on a completely blank line", () => {
@@ -334,8 +394,10 @@ describe("toggleUnderlineCommand", () => {
 			{ line: 0, ch: 0 },
 		);
 		toggleUnderlineCommand(editor);
-		expect(editor.replaceSelection).toHaveBeenCalledWith("__");
-		expect(editor.setCursor).toHaveBeenCalledWith({ line: 0, ch: 1 });
+		expect(changesOf(editor)).toEqual([{ text: "__", from: { line: 0, ch: 0 }, to: { line: 0, ch: 0 } }]);
+		expect(editor.setSelections).toHaveBeenCalledWith([
+			{ anchor: { line: 0, ch: 1 }, head: { line: 0, ch: 1 } },
+		]);
 	});
 
 	it("removes __ when cursor is exactly between empty underscores", () => {
@@ -345,7 +407,496 @@ describe("toggleUnderlineCommand", () => {
 			{ line: 0, ch: 1 },
 		);
 		toggleUnderlineCommand(editor);
-		expect(editor.replaceRange).toHaveBeenCalledWith("", { line: 0, ch: 0 }, { line: 0, ch: 2 });
+		expect(changesOf(editor)).toEqual([{ text: "", from: { line: 0, ch: 0 }, to: { line: 0, ch: 2 } }]);
 		expect(editor.replaceSelection).not.toHaveBeenCalled();
 	});
 });
+
+describe("toggleUnderlineCommand — multiple selections", () => {
+	const cursor = (line: number, ch: number): EditorSelection => ({
+		anchor: { line, ch },
+		head: { line, ch },
+	});
+
+	it("underlines the word at every cursor on one line", () => {
+		const editor = makeEditor(["alpha beta gamma"], { line: 0, ch: 0 }, { line: 0, ch: 0 }, [
+			cursor(0, 2),
+			cursor(0, 13),
+		]);
+		toggleUnderlineCommand(editor);
+		expect(editor.getLine(0)).toBe("_alpha_ beta _gamma_");
+		// the later cursor is shifted by the marks added before it
+		expect(editor.setSelections).toHaveBeenCalledWith([
+			cursor(0, 7),
+			cursor(0, 20),
+		]);
+	});
+
+	it("toggles selections on different lines independently", () => {
+		const editor = makeEditor(["_one_ two", "three four"], { line: 0, ch: 0 }, { line: 0, ch: 0 }, [
+			{ anchor: { line: 0, ch: 1 }, head: { line: 0, ch: 4 } },
+			{ anchor: { line: 1, ch: 6 }, head: { line: 1, ch: 10 } },
+		]);
+		toggleUnderlineCommand(editor);
+		expect(editor.getLine(0)).toBe("one two");
+		expect(editor.getLine(1)).toBe("three _four_");
+		// One transaction, so one undo reverts both
+		expect(changesOf(editor)).toHaveLength(2);
+		expect(editor.replaceRange).not.toHaveBeenCalled();
+		expect(editor.setSelections).toHaveBeenCalledWith([
+			{ anchor: { line: 0, ch: 0 }, head: { line: 0, ch: 3 } },
+			cursor(1, 12),
+		]);
+	});
+
+	it("handles backwards selections (head before anchor)", () => {
+		const editor = makeEditor(["hello world"], { line: 0, ch: 0 }, { line: 0, ch: 0 }, [
+			{ anchor: { line: 0, ch: 5 }, head: { line: 0, ch: 0 } },
+		]);
+		toggleUnderlineCommand(editor);
+		expect(editor.getLine(0)).toBe("_hello_ world");
+	});
+
+	it("toggles a word once when several cursors sit inside it", () => {
+		const editor = makeEditor(["hello world"], { line: 0, ch: 0 }, { line: 0, ch: 0 }, [
+			cursor(0, 1),
+			cursor(0, 3),
+		]);
+		toggleUnderlineCommand(editor);
+		expect(editor.getLine(0)).toBe("_hello_ world");
+		expect(editor.setSelections).toHaveBeenCalledWith([cursor(0, 7)]);
+	});
+
+	it("mixes empty-cursor insertion with word toggles", () => {
+		const editor = makeEditor(["a  b"], { line: 0, ch: 0 }, { line: 0, ch: 0 }, [
+			cursor(0, 0),
+			cursor(0, 2),
+			cursor(0, 3),
+		]);
+		toggleUnderlineCommand(editor);
+		expect(editor.getLine(0)).toBe("_a_ __ _b_");
+		expect(editor.setSelections).toHaveBeenCalledWith([
+			cursor(0, 3),
+			cursor(0, 5),
+			cursor(0, 10),
+		]);
+	});
+});
+
+describe("applySpanToggle", () => {
+	it("wraps the whole multi-line selection in one span", () => {
+		const editor = makeEditor(["a phrase", "that continues"], { line: 0, ch: 2 }, { line: 1, ch: 4 });
+		const result = applySpanToggle(editor, { line: 0, ch: 2 }, { line: 1, ch: 4 });
+		expect(editor.getLine(0)).toBe("a _phrase");
+		expect(editor.getLine(1)).toBe("that_ continues");
+		expect(result).toEqual({ anchor: { line: 0, ch: 3 }, head: { line: 1, ch: 4 } });
+	});
+
+	it("removes marks just outside the selection", () => {
+		const editor = makeEditor(["a _phrase", "that_ continues"], { line: 0, ch: 3 }, { line: 1, ch: 4 });
+		applySpanToggle(editor, { line: 0, ch: 3 }, { line: 1, ch: 4 });
+		expect(editor.getLine(0)).toBe("a phrase");
+		expect(editor.getLine(1)).toBe("that continues");
+	});
+
+	it("removes marks at the edges of the selection", () => {
+		const editor = makeEditor(["_a phrase", "that continues_"], { line: 0, ch: 0 }, { line: 1, ch: 15 });
+		const result = applySpanToggle(editor, { line: 0, ch: 0 }, { line: 1, ch: 15 });
+		expect(editor.getLine(0)).toBe("a phrase");
+		expect(editor.getLine(1)).toBe("that continues");
+		expect(result).toEqual({ anchor: { line: 0, ch: 0 }, head: { line: 1, ch: 14 } });
+	});
+
+	it("widens a selection that starts and ends mid-word to whole words", () => {
+		const editor = makeEditor(["alpha beta", "gamma delta"], { line: 0, ch: 2 }, { line: 1, ch: 3 });
+		const result = applySpanToggle(editor, { line: 0, ch: 2 }, { line: 1, ch: 3 });
+		expect(editor.getLine(0)).toBe("_alpha beta");
+		expect(editor.getLine(1)).toBe("gamma_ delta");
+		expect(result).toEqual({ anchor: { line: 0, ch: 1 }, head: { line: 1, ch: 5 } });
+	});
+
+	it("keeps whitespace at the selection edges outside the marks", () => {
+		const editor = makeEditor(["a phrase ", "that continues"], { line: 0, ch: 1 }, { line: 1, ch: 5 });
+		applySpanToggle(editor, { line: 0, ch: 1 }, { line: 1, ch: 5 });
+		expect(editor.getLine(0)).toBe("a _phrase ");
+		expect(editor.getLine(1)).toBe("that_ continues");
+	});
+
+	it("leaves the text alone when the span wouldn't read back as an underline", () => {
+		// The inner _ would pair with the new closing mark instead
+		const stuck = makeEditor(["x _y", "z w"], { line: 0, ch: 0 }, { line: 1, ch: 1 });
+		applySpanToggle(stuck, { line: 0, ch: 0 }, { line: 1, ch: 1 });
+		expect(stuck.getLine(0)).toBe("x _y");
+		expect(stuck.replaceRange).not.toHaveBeenCalled();
+	});
+
+	it("does not treat __ strong marks as an underline span", () => {
+		const editor = makeEditor(["__a", "b__"], { line: 0, ch: 2 }, { line: 1, ch: 1 });
+		applySpanToggle(editor, { line: 0, ch: 2 }, { line: 1, ch: 1 });
+		expect(editor.getLine(0)).toBe("___a");
+		expect(editor.getLine(1)).toBe("b___");
+	});
+});
+
+describe("toggleUnderlineCommand — single-span option", () => {
+	it("wraps a multi-line selection as one span when configured", () => {
+		const editor = makeEditor(["first", "second"], { line: 0, ch: 0 }, { line: 1, ch: 6 });
+		toggleUnderlineCommand(editor, { multiLine: "single-span" });
+		expect(editor.getLine(0)).toBe("_first");
+		expect(editor.getLine(1)).toBe("second_");
+	});
+
+	it("falls back to per-line wrapping across a blank line", () => {
+		const editor = makeEditor(["first", "", "second"], { line: 0, ch: 0 }, { line: 2, ch: 6 });
+		toggleUnderlineCommand(editor, { multiLine: "single-span" });
+		expect(editor.getLine(0)).toBe("_first_");
+		expect(editor.getLine(2)).toBe("_second_");
+	});
+
+	it("falls back to per-line wrapping across list items", () => {
+		const editor = makeEditor(["- one", "- two"], { line: 0, ch: 0 }, { line: 1, ch: 5 });
+		toggleUnderlineCommand(editor, { multiLine: "single-span" });
+		expect(editor.getLine(0)).toBe("- _one_");
+		expect(editor.getLine(1)).toBe("- _two_");
+	});
+});
+
+describe("toggleUnderlineCommand — other syntaxes", () => {
+	it("wraps the word at the cursor in ++", () => {
+		const editor = makeEditor(["hello world"], { line: 0, ch: 2 }, { line: 0, ch: 2 });
+		toggleUnderlineCommand(editor, { syntax: PLUS_SYNTAX });
+		expect(editor.getLine(0)).toBe("++hello++ world");
+		expect(editor.setSelections).toHaveBeenCalledWith([
+			{ anchor: { line: 0, ch: 9 }, head: { line: 0, ch: 9 } },
+		]);
+	});
+
+	it("removes ++ around the word at the cursor", () => {
+		const editor = makeEditor(["++hello++ world"], { line: 0, ch: 4 }, { line: 0, ch: 4 });
+		toggleUnderlineCommand(editor, { syntax: PLUS_SYNTAX });
+		expect(editor.getLine(0)).toBe("hello world");
+	});
+
+	it("removes <u> tags just outside the selection", () => {
+		const editor = makeEditor(["a <u>b</u> c"], { line: 0, ch: 5 }, { line: 0, ch: 6 });
+		toggleUnderlineCommand(editor, { syntax: HTML_SYNTAX });
+		expect(editor.getLine(0)).toBe("a b c");
+	});
+
+	it("inserts and removes an empty pair at the cursor", () => {
+		const editor = makeEditor(["a  b"], { line: 0, ch: 2 }, { line: 0, ch: 2 });
+		toggleUnderlineCommand(editor, { syntax: HTML_SYNTAX });
+		expect(editor.getLine(0)).toBe("a <u></u> b");
+
+		const again = makeEditor(["a <u></u> b"], { line: 0, ch: 5 }, { line: 0, ch: 5 });
+		toggleUnderlineCommand(again, { syntax: HTML_SYNTAX });
+		expect(again.getLine(0)).toBe("a  b");
+	});
+
+	it("does not treat +++ runs as a ++ span", () => {
+		expect(getUnderlineState("+++a+++", 3, 4, PLUS_SYNTAX).isUnderlined).toBe(false);
+	});
+
+	it("wraps each line of a multi-line selection", () => {
+		const editor = makeEditor(["one", "two"], { line: 0, ch: 0 }, { line: 1, ch: 3 });
+		toggleUnderlineCommand(editor, { syntax: HTML_SYNTAX });
+		expect(editor.getLine(0)).toBe("<u>one</u>");
+		expect(editor.getLine(1)).toBe("<u>two</u>");
+	});
+
+	it("wraps a multi-line selection as one span", () => {
+		const editor = makeEditor(["one", "two"], { line: 0, ch: 0 }, { line: 1, ch: 3 });
+		toggleUnderlineCommand(editor, { syntax: PLUS_SYNTAX, multiLine: "single-span" });
+		expect(editor.getLine(0)).toBe("++one");
+		expect(editor.getLine(1)).toBe("two++");
+	});
+});
+
+describe("getToggleTarget — nested formatting", () => {
+	it("finds an enclosing underline through bold markers", () => {
+		expect(getToggleTarget("_**word**_", 3, 7)).toMatchObject({
+			isUnderlined: true,
+			markFrom: 0,
+			markTo: 10,
+		});
+	});
+
+	it("finds it when the selection includes the inner markers", () => {
+		expect(getToggleTarget("_**word**_", 1, 9).isUnderlined).toBe(true);
+	});
+
+	it("finds an underline around bold written with underscores", () => {
+		expect(getToggleTarget("___word___", 3, 7)).toMatchObject({ isUnderlined: true, markFrom: 0, markTo: 10 });
+	});
+
+	it("does not look through plain text", () => {
+		expect(getToggleTarget("_a word_", 3, 7).isUnderlined).toBe(false);
+	});
+
+	it("wraps outside adjacent marker pairs", () => {
+		expect(getToggleTarget("a ~~**word**~~ b", 6, 10)).toMatchObject({
+			isUnderlined: false,
+			markFrom: 2,
+			markTo: 14,
+		});
+	});
+
+	it("widens the range to a whole link or code span", () => {
+		expect(getToggleTarget("see [[my note]] now", 6, 8)).toMatchObject({ markFrom: 4, markTo: 15 });
+		expect(getToggleTarget("run `npm test` now", 5, 8)).toMatchObject({ markFrom: 4, markTo: 14 });
+		expect(getToggleTarget("[text](https://x.io)", 10, 12)).toMatchObject({ markFrom: 0, markTo: 20 });
+	});
+});
+
+describe("toggleUnderlineCommand — nested formatting", () => {
+	const toggleAt = (line: string, ch: number) => {
+		const editor = makeEditor([line], { line: 0, ch }, { line: 0, ch });
+		toggleUnderlineCommand(editor);
+		return editor.getLine(0);
+	};
+
+	it("puts the underline outside bold, strike and highlight", () => {
+		expect(toggleAt("**word**", 4)).toBe("_**word**_");
+		expect(toggleAt("~~word~~", 4)).toBe("_~~word~~_");
+		expect(toggleAt("==word==", 4)).toBe("_==word==_");
+	});
+
+	it("removes the outer underline instead of adding another", () => {
+		expect(toggleAt("_**word**_", 5)).toBe("**word**");
+	});
+
+	it("round-trips", () => {
+		expect(toggleAt(toggleAt("a **b** c", 4), 5)).toBe("a **b** c");
+	});
+
+	it("wraps a whole link rather than a word inside it", () => {
+		expect(toggleAt("see [[my note]]", 7)).toBe("see _[[my note]]_");
+		expect(toggleAt("see _[[my note]]_", 8)).toBe("see [[my note]]");
+	});
+
+	it("wraps a whole inline code span", () => {
+		expect(toggleAt("run `npm test`", 6)).toBe("run _`npm test`_");
+	});
+
+	it("handles ++ around bold", () => {
+		const editor = makeEditor(["++**word**++"], { line: 0, ch: 5 }, { line: 0, ch: 5 });
+		toggleUnderlineCommand(editor, { syntax: PLUS_SYNTAX });
+		expect(editor.getLine(0)).toBe("**word**");
+	});
+});
+
+describe("setUnderline — split, extend and merge", () => {
+	it("removing part of a span splits it", () => {
+		expect(setUnderline("_one two three_", 5, 8, false)).toEqual({
+			text: "_one_ two _three_",
+			from: 6,
+			to: 9,
+		});
+	});
+
+	it("removing the start of a span shortens it", () => {
+		expect(setUnderline("_one two_", 1, 4, false)?.text).toBe("one _two_");
+	});
+
+	it("adding across a span edge extends it", () => {
+		expect(setUnderline("_one_ two", 3, 9, true)?.text).toBe("_one two_");
+		expect(setUnderline("zero _one_", 0, 7, true)?.text).toBe("_zero one_");
+	});
+
+	it("adding across several spans merges them", () => {
+		expect(setUnderline("_a_ b _c_ d _e_", 0, 15, true)?.text).toBe("_a b c d e_");
+	});
+
+	it("snaps _ edits to whole words", () => {
+		expect(setUnderline("_abcdef_", 3, 5, false)?.text).toBe("abcdef");
+	});
+
+	it("keeps other formatting paired when splitting", () => {
+		expect(setUnderline("_a **b** c_", 5, 6, false)?.text).toBe("_a_ **b** _c_");
+	});
+
+	it("works for other syntaxes, including mid-word", () => {
+		expect(setUnderline("++abcdef++", 4, 6, false, PLUS_SYNTAX)?.text).toBe("++ab++cd++ef++");
+		expect(setUnderline("<u>a</u> b", 4, 10, true, HTML_SYNTAX)?.text).toBe("<u>a b</u>");
+	});
+
+	it("returns null when the syntax can't express the result", () => {
+		expect(setUnderline("a*_b_", 1, 3, true)).toBeNull();
+	});
+});
+
+describe("toggleUnderlineCommand — partial overlap", () => {
+	const toggle = (line: string, from: number, to: number) => {
+		const editor = makeEditor([line], { line: 0, ch: from }, { line: 0, ch: to });
+		toggleUnderlineCommand(editor);
+		return { line: editor.getLine(0), selections: editor.setSelections.mock.calls[0][0] };
+	};
+
+	it("splits a span when un-underlining its middle", () => {
+		const result = toggle("_one two three_", 5, 8);
+		expect(result.line).toBe("_one_ two _three_");
+		expect(result.selections).toEqual([{ anchor: { line: 0, ch: 6 }, head: { line: 0, ch: 9 } }]);
+	});
+
+	it("extends a span when the selection straddles its edge", () => {
+		expect(toggle("_one_ two", 2, 9).line).toBe("_one two_");
+	});
+
+	it("merges spans across the selection", () => {
+		expect(toggle("_one_ two _three_", 1, 16).line).toBe("_one two three_");
+	});
+
+	it("never produces nested spans", () => {
+		expect(toggle("_a b c_", 3, 4).line).toBe("_a_ b _c_");
+	});
+});
+
+describe("toggleUnderlineCommand — tables", () => {
+	const table = ["| Name | Notes |", "| --- | :---: |", "| alpha | beta gamma |", "| one | two |"];
+	const toggle = (from: EditorPosition, to: EditorPosition, lines = table) => {
+		const editor = makeEditor(lines, from, to);
+		toggleUnderlineCommand(editor);
+		return { editor, lines: lines.map((_, i) => editor.getLine(i)) };
+	};
+
+	it("toggles a word inside a cell", () => {
+		const { lines } = toggle({ line: 2, ch: 3 }, { line: 2, ch: 3 });
+		expect(lines[2]).toBe("| _alpha_ | beta gamma |");
+	});
+
+	it("underlines each cell of a selection across cells, never the pipes", () => {
+		const { lines } = toggle({ line: 2, ch: 0 }, { line: 2, ch: 23 });
+		expect(lines[2]).toBe("| _alpha_ | _beta gamma_ |");
+	});
+
+	it("clips a selection to the part inside each cell", () => {
+		const { lines } = toggle({ line: 2, ch: 4 }, { line: 2, ch: 15 });
+		expect(lines[2]).toBe("| _alpha_ | _beta_ gamma |");
+	});
+
+	it("works per cell across rows and skips the delimiter row", () => {
+		const { lines } = toggle({ line: 0, ch: 0 }, { line: 3, ch: 13 });
+		expect(lines).toEqual([
+			"| _Name_ | _Notes_ |",
+			"| --- | :---: |",
+			"| _alpha_ | _beta gamma_ |",
+			"| _one_ | _two_ |",
+		]);
+	});
+
+	it("removes underlines per cell when every cell is underlined", () => {
+		const underlined = ["| a | b |", "|---|---|", "| _x_ | _y z_ |"];
+		const { lines } = toggle({ line: 2, ch: 0 }, { line: 2, ch: 15 }, underlined);
+		expect(lines[2]).toBe("| x | y z |");
+	});
+
+	it("removes an underline that fills a cell without padding", () => {
+		const tight = ["|a|b|", "|-|-|", "|_x_|y|"];
+		const { lines } = toggle({ line: 2, ch: 2 }, { line: 2, ch: 2 }, tight);
+		expect(lines[2]).toBe("|x|y|");
+	});
+
+	it("leaves the delimiter row alone", () => {
+		const { lines } = toggle({ line: 1, ch: 0 }, { line: 1, ch: 15 });
+		expect(lines[1]).toBe("| --- | :---: |");
+	});
+
+	it("treats pipes as plain text outside a table", () => {
+		const { lines } = toggle({ line: 0, ch: 0 }, { line: 0, ch: 5 }, ["a | b"]);
+		expect(lines[0]).toBe("_a | b_");
+	});
+
+	it("toggles per cell with the single-span option", () => {
+		const editor = makeEditor(table, { line: 2, ch: 0 }, { line: 3, ch: 13 });
+		toggleUnderlineCommand(editor, { multiLine: "single-span" });
+		expect(editor.getLine(2)).toBe("| _alpha_ | _beta gamma_ |");
+		expect(editor.getLine(3)).toBe("| _one_ | _two_ |");
+	});
+});
+
+describe("toggleUnderlineCommand — block structure", () => {
+	const toggleAll = (lines: string[]) => {
+		const last = lines.length - 1;
+		const editor = makeEditor(lines, { line: 0, ch: 0 }, { line: last, ch: lines[last].length });
+		toggleUnderlineCommand(editor);
+		return { editor, lines: lines.map((_, i) => editor.getLine(i)) };
+	};
+
+	it("keeps list markers, checkboxes and numbers outside the marks", () => {
+		expect(toggleAll(["- item", "  * nested", "1. first", "- [ ] todo", "- [x] done"]).lines).toEqual([
+			"- _item_",
+			"  * _nested_",
+			"1. _first_",
+			"- [ ] _todo_",
+			"- [x] _done_",
+		]);
+	});
+
+	it("keeps quote markers, callout headers and heading hashes outside the marks", () => {
+		expect(toggleAll(["> [!note]- Title", "> quoted", "## Heading ##", "#tag line"]).lines).toEqual([
+			"> [!note]- _Title_",
+			"> _quoted_",
+			"## _Heading_ ##",
+			"_#tag line_",
+		]);
+	});
+
+	it("skips fenced code, math blocks, frontmatter and thematic breaks", () => {
+		const lines = ["---", "title: x", "---", "text", "```", "code", "```", "$$", "x_1", "$$", "***", "more"];
+		expect(toggleAll(lines).lines).toEqual([
+			"---", "title: x", "---", "_text_", "```", "code", "```", "$$", "x_1", "$$", "***", "_more_",
+		]);
+	});
+
+	it("trims whitespace at the span edges", () => {
+		expect(toggleAll(["  indented  ", "- item   "]).lines).toEqual(["  _indented_  ", "- _item_   "]);
+	});
+
+	it("removes underlines from the prose the same way", () => {
+		expect(toggleAll(["- _item_", "> _quote_"]).lines).toEqual(["- item", "> quote"]);
+	});
+
+	it("keeps the selection on the adjusted text", () => {
+		const { editor } = toggleAll(["- one", "- two"]);
+		expect(editor.setSelections).toHaveBeenCalledWith([
+			{ anchor: { line: 0, ch: 3 }, head: { line: 1, ch: 6 } },
+		]);
+	});
+});
+
+describe("isSelectionUnderlined", () => {
+	const at = (ch: number, line = 0): EditorPosition => ({ line, ch });
+
+	test("a cursor in an underlined word", () => {
+		expect(isSelectionUnderlined(makeEditor(["a _word_ b"], at(4), at(4)))).toBe(true);
+		expect(isSelectionUnderlined(makeEditor(["a word b"], at(4), at(4)))).toBe(false);
+	});
+
+	test("a cursor anywhere inside a longer span", () => {
+		expect(isSelectionUnderlined(makeEditor(["_one two three_"], at(6), at(6)))).toBe(true);
+	});
+
+	test("a cursor just past the closing mark is outside", () => {
+		expect(isSelectionUnderlined(makeEditor(["_one_ two"], at(5), at(5)))).toBe(false);
+	});
+
+	test("a selection counts only when all of it is underlined", () => {
+		expect(isSelectionUnderlined(makeEditor(["_one two_ x"], at(1), at(8)))).toBe(true);
+		expect(isSelectionUnderlined(makeEditor(["_one_ two"], at(1), at(9)))).toBe(false);
+	});
+
+	test("across lines", () => {
+		const lines = ["_one_", "_two_"];
+		expect(isSelectionUnderlined(makeEditor(lines, at(0), at(5, 1)))).toBe(true);
+		expect(isSelectionUnderlined(makeEditor(["_one_", "two"], at(0), at(3, 1)))).toBe(false);
+	});
+
+	test("uses the given syntax", () => {
+		expect(isSelectionUnderlined(makeEditor(["a ++word++"], at(5), at(5)), PLUS_SYNTAX)).toBe(true);
+		expect(isSelectionUnderlined(makeEditor(["a _word_"], at(4), at(4)), PLUS_SYNTAX)).toBe(false);
+	});
+
+	test("__strong__ is not underlined", () => {
+		expect(isSelectionUnderlined(makeEditor(["__word__"], at(4), at(4)))).toBe(false);
+	});
+});
@@ -0,0 +1,289 @@
+import {
+	findSkippedInlineRanges,
+	findTableRows,
+	findUnderlineSpans,
+	isTableDelimiterRow,
+	isTableRow,
+	splitParagraphs,
+	splitTableCells,
+	tokenizeDelimited,
+	tokenizeEmphasis,
+} from "../src/tokenizer";
+
+/**
+ * Renders tokenizer output the way CommonMark would, so spec examples can be
+ * compared directly: delimiters become <em>/<strong> tags, backslash escapes
+ * are resolved, everything else is left as written.
+ */
+function render(text: string): string {
+	const spans = tokenizeEmphasis(text);
+	const width = (s: { strong: boolean }) => (s.strong ? 2 : 1);
+	const tag = (s: { strong: boolean }) => (s.strong ? "strong" : "em");
+	let out = "";
+	let i = 0;
+	while (i < text.length) {
+		const open = spans.find((s) => s.from === i);
+		if (open) {
+			out += `<${tag(open)}>`;
+			i += width(open);
+			continue;
+		}
+		const close = spans.find((s) => s.to - width(s) === i);
+		if (close) {
+			out += `</${tag(close)}>`;
+			i += width(close);
+			continue;
+		}
+		if (text[i] === "\\" && /[!-/:-@[-`{-~]/.test(text[i + 1] ?? "")) {
+			out += text[i + 1];
+			i += 2;
+			continue;
+		}
+		out += text[i];
+		i++;
+	}
+	return out;
+}
+
+// [markdown, expected] pairs from the CommonMark spec, §6.2 "Emphasis and strong emphasis"
+const SPEC_EXAMPLES: Array<[string, string]> = [
+	// Rule 1 — * can open emphasis iff left-flanking
+	["*foo bar*", "<em>foo bar</em>"],
+	["a * foo bar*", "a * foo bar*"],
+	['a*"foo"*', 'a*"foo"*'],
+	["foo*bar*", "foo<em>bar</em>"],
+	["5*6*78", "5<em>6</em>78"],
+	// Rule 2 — _ can open emphasis iff left-flanking and not intraword
+	["_foo bar_", "<em>foo bar</em>"],
+	["_ foo bar_", "_ foo bar_"],
+	['a_"foo"_', 'a_"foo"_'],
+	["foo_bar_", "foo_bar_"],
+	["5_6_78", "5_6_78"],
+	["пристаням_стремятся_", "пристаням_стремятся_"],
+	['aa_"bb"_cc', 'aa_"bb"_cc'],
+	["foo-_(bar)_", "foo-<em>(bar)</em>"],
+	// Rules 3/4 — closing emphasis
+	["_foo*", "_foo*"],
+	["*foo bar *", "*foo bar *"],
+	["*(*foo)", "*(*foo)"],
+	["*(*foo*)*", "<em>(<em>foo</em>)</em>"],
+	["*foo*bar", "<em>foo</em>bar"],
+	["_foo bar _", "_foo bar _"],
+	["_(_foo)", "_(_foo)"],
+	["_(_foo_)_", "<em>(<em>foo</em>)</em>"],
+	["_foo_bar", "_foo_bar"],
+	["_пристаням_стремятся", "_пристаням_стремятся"],
+	["_foo_bar_baz_", "<em>foo_bar_baz</em>"],
+	["_(bar)_.", "<em>(bar)</em>."],
+	// Rules 5–8 — strong emphasis
+	["**foo bar**", "<strong>foo bar</strong>"],
+	["** foo bar**", "** foo bar**"],
+	['a**"foo"**', 'a**"foo"**'],
+	["foo**bar**", "foo<strong>bar</strong>"],
+	["__foo bar__", "<strong>foo bar</strong>"],
+	["__ foo bar__", "__ foo bar__"],
+	['a__"foo"__', 'a__"foo"__'],
+	["foo__bar__", "foo__bar__"],
+	["5__6__78", "5__6__78"],
+	["__foo, __bar__, baz__", "<strong>foo, <strong>bar</strong>, baz</strong>"],
+	["foo-__(bar)__", "foo-<strong>(bar)</strong>"],
+	["__foo__bar__baz__", "<strong>foo__bar__baz</strong>"],
+	// Nesting
+	["_foo __bar__ baz_", "<em>foo <strong>bar</strong> baz</em>"],
+	["_foo _bar_ baz_", "<em>foo <em>bar</em> baz</em>"],
+	["__foo_ bar_", "<em><em>foo</em> bar</em>"],
+	["*foo *bar**", "<em>foo <em>bar</em></em>"],
+	["*foo **bar** baz*", "<em>foo <strong>bar</strong> baz</em>"],
+	["*foo**bar**baz*", "<em>foo<strong>bar</strong>baz</em>"],
+	["*foo**bar*", "<em>foo**bar</em>"],
+	["***foo** bar*", "<em><strong>foo</strong> bar</em>"],
+	["*foo **bar***", "<em>foo <strong>bar</strong></em>"],
+	["*foo**bar***", "<em>foo<strong>bar</strong></em>"],
+	["foo***bar***baz", "foo<em><strong>bar</strong></em>baz"],
+	["foo******bar*********baz", "foo<strong><strong><strong>bar</strong></strong></strong>***baz"],
+	["***strong emph***", "<em><strong>strong emph</strong></em>"],
+	// Rules 9–16 — precedence and leftovers
+	["*foo _bar* baz_", "<em>foo _bar</em> baz_"],
+	["*foo __bar *baz bim__ bam*", "<em>foo <strong>bar *baz bim</strong> bam</em>"],
+	["**foo **bar baz**", "**foo <strong>bar baz</strong>"],
+	["*foo *bar baz*", "*foo <em>bar baz</em>"],
+	["__foo_", "_<em>foo</em>"],
+	["_foo__", "<em>foo</em>_"],
+	["*a `*`*", "<em>a `*`</em>"],
+	["_a `_`_", "<em>a `_`</em>"],
+	// Backslash escapes (§2.4)
+	["\\*not emphasized*", "*not emphasized*"],
+	["\\_not emphasized_", "_not emphasized_"],
+];
+
+describe("tokenizeEmphasis — CommonMark spec examples", () => {
+	test.each(SPEC_EXAMPLES)("%j", (markdown, expected) => {
+		expect(render(markdown)).toBe(expected);
+	});
+});
+
+describe("tokenizeEmphasis — cases from the backlog", () => {
+	test("snake_case_identifier in prose is not emphasis", () => {
+		expect(tokenizeEmphasis("use snake_case_identifier here")).toEqual([]);
+	});
+
+	test("_ spaced _ is not emphasis", () => {
+		expect(tokenizeEmphasis("_ spaced _")).toEqual([]);
+	});
+
+	test("\\_escaped\\_ is not emphasis", () => {
+		expect(tokenizeEmphasis("\\_escaped\\_")).toEqual([]);
+	});
+
+	test("underscores inside inline code, math and links are inert", () => {
+		expect(tokenizeEmphasis("`a_b` $x_1$ [[my_note]] [t](http://x.io/a_b) _ok_")).toEqual([
+			{ from: 45, to: 49, delimiter: "_", strong: false },
+		]);
+	});
+
+	test("emphasis may span a soft line break", () => {
+		expect(render("_a phrase\nthat continues_")).toBe("<em>a phrase\nthat continues</em>");
+	});
+
+	test("spans are returned in document pre-order", () => {
+		const spans = tokenizeEmphasis("_a *b* c_ *d*");
+		expect(spans.map((s) => [s.from, s.delimiter])).toEqual([
+			[0, "_"],
+			[3, "*"],
+			[10, "*"],
+		]);
+	});
+});
+
+describe("splitParagraphs", () => {
+	test("joins soft-wrapped lines and splits at blank lines", () => {
+		expect(splitParagraphs("a\nb\n\nc")).toEqual([
+			{ from: 0, text: "a\nb" },
+			{ from: 5, text: "c" },
+		]);
+	});
+
+	test("each list item starts a new paragraph", () => {
+		expect(splitParagraphs("- one\n- two\n  more")).toEqual([
+			{ from: 0, text: "- one" },
+			{ from: 6, text: "- two\n  more" },
+		]);
+	});
+
+	test("headings and thematic breaks are paragraphs of one line", () => {
+		expect(splitParagraphs("# Title _a\nnext line b_")).toEqual([
+			{ from: 0, text: "# Title _a" },
+			{ from: 11, text: "next line b_" },
+		]);
+		expect(splitParagraphs("text _a\n***\nb_")).toEqual([
+			{ from: 0, text: "text _a" },
+			{ from: 8, text: "***" },
+			{ from: 12, text: "b_" },
+		]);
+	});
+
+	test("joins a quote's lines with their markers blanked", () => {
+		expect(splitParagraphs("> _quoted\n> continues_\n>\n> > deeper")).toEqual([
+			{ from: 0, text: "  _quoted\n  continues_" },
+			{ from: 25, text: "    deeper" },
+		]);
+	});
+
+	test("each table cell is its own paragraph", () => {
+		expect(splitParagraphs("| a | b |\n|---|---|\n| _c | d_ |")).toEqual([
+			{ from: 1, text: " a " },
+			{ from: 5, text: " b " },
+			{ from: 21, text: " _c " },
+			{ from: 26, text: " d_ " },
+		]);
+	});
+});
+
+describe("code spans", () => {
+	test("an escaped backtick doesn't open a code span", () => {
+		expect(findUnderlineSpans("\\`_x_`")).toEqual([{ from: 2, to: 5 }]);
+		expect(findUnderlineSpans("\\\\`_x_`")).toEqual([]);
+	});
+
+	test("a code span closes only at a run of the same length", () => {
+		expect(findSkippedInlineRanges("`a``b` _c_")).toEqual([{ from: 0, to: 6 }]);
+		expect(findUnderlineSpans("``a`_b_`c`` _d_")).toEqual([{ from: 12, to: 15 }]);
+		expect(findUnderlineSpans("``a _b_")).toEqual([{ from: 4, to: 7 }]);
+	});
+});
+
+describe("findUnderlineSpans — block structure", () => {
+	test("no span crosses a heading's end or a thematic break", () => {
+		expect(findUnderlineSpans("# Title _a\nnext line b_")).toEqual([]);
+		expect(findUnderlineSpans("text _a\n***\nb_")).toEqual([]);
+	});
+
+	test("a span may run across the lines of a quote", () => {
+		expect(findUnderlineSpans("> _quoted\n> continues_")).toEqual([{ from: 2, to: 22 }]);
+	});
+});
+
+describe("tables", () => {
+	test("splits a row into cells at unescaped pipes", () => {
+		expect(splitTableCells("| a | b \\| c |")).toEqual([
+			{ from: 1, to: 4 },
+			{ from: 5, to: 13 },
+		]);
+		expect(splitTableCells("a | b")).toEqual([
+			{ from: 0, to: 2 },
+			{ from: 3, to: 5 },
+		]);
+	});
+
+	test("recognises delimiter rows", () => {
+		expect(isTableDelimiterRow("| --- | :---: | --: |")).toBe(true);
+		expect(isTableDelimiterRow("---|---")).toBe(true);
+		expect(isTableDelimiterRow("| a | b |")).toBe(false);
+	});
+
+	test("a row belongs to a table only next to or below a delimiter row", () => {
+		const lines = ["a | b", "", "| h |", "| - |", "| x |", "", "| y |"];
+		const rows = lines.map((_, n) => isTableRow((i) => lines[i] ?? null, n));
+		expect(rows).toEqual([false, false, true, true, true, false, false]);
+	});
+
+	test("findTableRows agrees with isTableRow line by line", () => {
+		const lines = ["a | b", "| h |", "| - |", "| x |", "", "| y |", "| - |", "z"];
+		const getLine = (i: number) => lines[i] ?? null;
+		expect(findTableRows(getLine, 0, lines.length)).toEqual(lines.map((_, n) => isTableRow(getLine, n)));
+		expect(findTableRows(getLine, 3, 5)).toEqual([true, false]);
+	});
+
+	test("classifies a long table reading each line a bounded number of times", () => {
+		const lines = ["| h |", "| - |", ...Array.from({ length: 3000 }, (_, i) => `| ${i} |`)];
+		let reads = 0;
+		const getLine = (i: number) => {
+			reads++;
+			return lines[i] ?? null;
+		};
+		const rows = findTableRows(getLine, 0, lines.length);
+		expect(rows.every(Boolean)).toBe(true);
+		expect(reads).toBeLessThan(3 * lines.length);
+	});
+});
+
+describe("tokenizeDelimited", () => {
+	test("finds ++ spans, including across formatting", () => {
+		expect(tokenizeDelimited("++one++ and ++two **b**++", "++", "++")).toEqual([
+			{ from: 0, to: 7 },
+			{ from: 12, to: 25 },
+		]);
+	});
+
+	test("finds <u> spans", () => {
+		expect(tokenizeDelimited("a <u>b</u> c", "<u>", "</u>")).toEqual([{ from: 2, to: 10 }]);
+	});
+
+	test("needs non-whitespace inside both delimiters", () => {
+		expect(tokenizeDelimited("1 ++ 2 ++ 3 ++++", "++", "++")).toEqual([]);
+	});
+
+	test("ignores escaped delimiters and delimiters in code, math and links", () => {
+		expect(tokenizeDelimited("\\++a++ `++b++` $++c++$ [++d++](x)", "++", "++")).toEqual([]);
+	});
+});
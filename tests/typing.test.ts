@@ -0,0 +1,168 @@
+import { EditorSelection, EditorState, Extension } from "@codemirror/state";
+import { EditorView, runScopeHandlers } from "@codemirror/view";
+import type { Editor, EditorPosition } from "obsidian";
+import { underlineSyntaxes } from "../src/editor-decoration";
+import { PLUS_SYNTAX } from "../src/syntax";
+import { TypingOptions, underscoreTyping } from "../src/typing";
+
+const ALL_ON: TypingOptions = { wrapSelection: true, overtype: true, deletePair: true };
+
+/** The parts of Obsidian's Editor the selection wrap uses, over a CodeMirror view. */
+function editorFor(view: EditorView): Editor {
+	const offset = (p: EditorPosition) => view.state.doc.line(p.line + 1).from + p.ch;
+	return {
+		getLine: (n: number) => view.state.doc.line(n + 1).text,
+		lineCount: () => view.state.doc.lines,
+		replaceRange: (text: string, from: EditorPosition, to: EditorPosition = from) =>
+			view.dispatch({ changes: { from: offset(from), to: offset(to), insert: text } }),
+		setSelection: (anchor: EditorPosition, head: EditorPosition = anchor) =>
+			view.dispatch({ selection: { anchor: offset(anchor), head: offset(head) } }),
+	} as unknown as Editor;
+}
+
+function makeView(doc: string, selection: EditorSelection, options = ALL_ON, extra: Extension[] = []): EditorView {
+	return new EditorView({
+		state: EditorState.create({
+			doc,
+			selection,
+			extensions: [
+				EditorState.allowMultipleSelections.of(true),
+				underscoreTyping(options, editorFor),
+				extra,
+			],
+		}),
+		parent: document.body,
+	});
+}
+
+/** Types `text` the way CodeMirror does: input handlers first, then a plain insert. */
+function type(view: EditorView, text: string): void {
+	const { from, to } = view.state.selection.main;
+	const insert = () => view.state.update(view.state.replaceSelection(text), { userEvent: "input.type" });
+	const handled = view.state
+		.facet(EditorView.inputHandler)
+		.some((handler) => handler(view, from, to, text, insert));
+	if (!handled) view.dispatch(insert());
+}
+
+function backspace(view: EditorView): boolean {
+	return runScopeHandlers(view, new KeyboardEvent("keydown", { key: "Backspace" }), "editor");
+}
+
+/** The document with the main cursor or selection marked as | or [...]. */
+function show(view: EditorView): string {
+	const doc = view.state.doc.toString();
+	const { from, to } = view.state.selection.main;
+	if (from === to) return doc.slice(0, from) + "|" + doc.slice(from);
+	return doc.slice(0, from) + "[" + doc.slice(from, to) + "]" + doc.slice(to);
+}
+
+afterEach(() => {
+	document.body.innerHTML = "";
+});
+
+describe("wrapping a selection", () => {
+	test("typing _ underlines the selection instead of replacing it", () => {
+		const view = makeView("say hello there", EditorSelection.single(4, 9));
+		type(view, "_");
+		expect(show(view)).toBe("say _hello_| there");
+	});
+
+	test("typing _ over an underlined selection removes the marks", () => {
+		const view = makeView("say _hello_ there", EditorSelection.single(5, 10));
+		type(view, "_");
+		expect(show(view)).toBe("say [hello] there");
+	});
+
+	test("widens to whole words and leaves whitespace outside the marks", () => {
+		const view = makeView("say hello there", EditorSelection.single(5, 10));
+		type(view, "_");
+		expect(show(view)).toBe("say _hello_| there");
+	});
+
+	test("keeps the toggle's guards against __", () => {
+		const view = makeView("a _b_ c", EditorSelection.single(3, 4));
+		type(view, "_");
+		expect(view.state.doc.toString()).not.toContain("__");
+	});
+
+	test("leaves selections across lines to the default", () => {
+		const view = makeView("one\ntwo", EditorSelection.single(1, 5));
+		type(view, "_");
+		expect(show(view)).toBe("o_|wo");
+	});
+
+	test("can be turned off", () => {
+		const view = makeView("say hello", EditorSelection.single(4, 9), { ...ALL_ON, wrapSelection: false });
+		type(view, "_");
+		expect(show(view)).toBe("say _|");
+	});
+
+	test("does nothing when underscores aren't an underline syntax", () => {
+		const view = makeView("say hello", EditorSelection.single(4, 9), ALL_ON, [
+			underlineSyntaxes.of([PLUS_SYNTAX]),
+		]);
+		type(view, "_");
+		expect(show(view)).toBe("say _|");
+	});
+});
+
+describe("typing over a closing mark", () => {
+	/** A view where `__` was just inserted around the cursor, as by the toggle or auto-pair. */
+	const withPair = (options = ALL_ON) => {
+		const view = makeView("x ", EditorSelection.cursor(2), options);
+		view.dispatch({ changes: { from: 2, insert: "__" }, selection: EditorSelection.cursor(3) });
+		return view;
+	};
+
+	test("moves past an auto-inserted closing mark", () => {
+		const view = withPair();
+		type(view, "a");
+		type(view, "_");
+		expect(show(view)).toBe("x _a_|");
+	});
+
+	test("types a mark before an underscore that wasn't auto-inserted", () => {
+		const view = makeView("_a_", EditorSelection.cursor(2));
+		type(view, "_");
+		expect(show(view)).toBe("_a_|_");
+	});
+
+	test("forgets the mark when the cursor leaves the line", () => {
+		const view = withPair();
+		view.dispatch({ changes: { from: 0, insert: "top\n" }, selection: EditorSelection.cursor(0) });
+		view.dispatch({ selection: EditorSelection.cursor(7) });
+		type(view, "_");
+		expect(show(view)).toBe("top\nx __|_");
+	});
+
+	test("can be turned off", () => {
+		const view = withPair({ ...ALL_ON, overtype: false });
+		type(view, "_");
+		expect(show(view)).toBe("x __|_");
+	});
+});
+
+describe("Backspace in an empty pair", () => {
+	test("deletes both marks", () => {
+		const view = makeView("x __ y", EditorSelection.cursor(3));
+		expect(backspace(view)).toBe(true);
+		expect(show(view)).toBe("x | y");
+	});
+
+	test("leaves longer runs and intraword underscores alone", () => {
+		expect(backspace(makeView("x ___ y", EditorSelection.cursor(3)))).toBe(false);
+		expect(backspace(makeView("snake__case", EditorSelection.cursor(6)))).toBe(false);
+	});
+
+	test("handles every cursor", () => {
+		const view = makeView("__ __", EditorSelection.create([EditorSelection.cursor(1), EditorSelection.cursor(4)]));
+		backspace(view);
+		expect(view.state.doc.toString()).toBe(" ");
+	});
+
+	test("can be turned off", () => {
+		const view = makeView("x __ y", EditorSelection.cursor(3), { ...ALL_ON, deletePair: false });
+		expect(backspace(view)).toBe(false);
+	});
+});
@@ -0,0 +1,109 @@
+import {
+	UnderlineIndex,
+	filterUnderlines,
+	findNoteUnderlines,
+	formatUnderlineList,
+	groupByHeading,
+} from "../src/underline-index";
+import { HTML_SYNTAX, UNDERSCORE_SYNTAX } from "../src/syntax";
+
+const NOTE = [
+	"---",
+	"title: _x_",
+	"---",
+	"Intro _first_",
+	"",
+	"# Tasks",
+	"",
+	"- [ ] _Call_ the <u>bank</u>",
+	"> _quoted_",
+	"",
+	"```",
+	"# not a heading _code_",
+	"```",
+	"",
+	"## Terms ##",
+	"",
+	"1. _glossary_ and `_code_` and [_link_](u)",
+].join("\n");
+
+describe("findNoteUnderlines", () => {
+	const entries = findNoteUnderlines(NOTE, [UNDERSCORE_SYNTAX, HTML_SYNTAX]);
+
+	test("lists every syntax's spans in document order, with the skip rules", () => {
+		expect(entries.map((e) => e.text)).toEqual(["first", "Call", "bank", "quoted", "glossary"]);
+		expect(NOTE.slice(entries[2].from, entries[2].to)).toBe("<u>bank</u>");
+	});
+
+	test("gives each span its line and the line without list and quote markers", () => {
+		expect(entries.map((e) => e.line)).toEqual([4, 8, 8, 9, 17]);
+		expect(entries[1].context).toBe("_Call_ the <u>bank</u>");
+		expect(entries[3].context).toBe("_quoted_");
+		expect(entries[4].context).toBe("_glossary_ and `_code_` and [_link_](u)");
+	});
+
+	test("finds the heading above each span, ignoring code blocks", () => {
+		expect(entries.map((e) => e.heading)).toEqual([null, "Tasks", "Tasks", "Tasks", "Terms"]);
+		expect(groupByHeading(entries).map((g) => [g.heading, g.entries.length])).toEqual([
+			[null, 1],
+			["Tasks", 3],
+			["Terms", 1],
+		]);
+	});
+
+	test("numbers lines and finds headings across a long note", () => {
+		const lines = Array.from({ length: 20000 }, (_, i) => (i % 1000 === 0 ? `# H${i}` : `line _${i}_`));
+		const found = findNoteUnderlines(lines.join("\n"), [UNDERSCORE_SYNTAX]);
+		expect(found).toHaveLength(19980);
+		expect(found[0]).toMatchObject({ line: 2, text: "1", heading: "H0" });
+		expect(found[found.length - 1]).toMatchObject({ line: 20000, text: "19999", heading: "H19000" });
+	});
+});
+
+describe("filterUnderlines", () => {
+	const notes = [
+		{ path: "Work/Plan.md", entries: findNoteUnderlines("# Q3\n_budget_ review\n_hiring_", [UNDERSCORE_SYNTAX]) },
+		{ path: "Home.md", entries: findNoteUnderlines("_groceries_", [UNDERSCORE_SYNTAX]) },
+	];
+
+	test("matches every word against text, line, heading and path, ignoring case", () => {
+		expect(filterUnderlines(notes, "REVIEW").map((n) => n.entries.map((e) => e.text))).toEqual([["budget"]]);
+		expect(filterUnderlines(notes, "work q3")[0].entries).toHaveLength(2);
+		expect(filterUnderlines(notes, "plan groceries")).toEqual([]);
+	});
+
+	test("keeps everything for an empty query", () => {
+		expect(filterUnderlines(notes, "  ")).toBe(notes);
+	});
+});
+
+describe("formatUnderlineList", () => {
+	test("links each note and lists each line once under its heading", () => {
+		const entries = findNoteUnderlines("_a_ and _b_\n# H\n- _c_", [UNDERSCORE_SYNTAX]);
+		expect(formatUnderlineList([{ path: "Dir/Note.md", entries }], "Underlines")).toBe(
+			"# Underlines\n\n## [[Dir/Note]]\n\n- _a_ and _b_\n\n### H\n\n- _c_\n",
+		);
+	});
+});
+
+describe("UnderlineIndex", () => {
+	test("keeps notes with underlines, sorted by path", () => {
+		const index = new UnderlineIndex();
+		index.set("b.md", "_one_", [UNDERSCORE_SYNTAX]);
+		index.set("a.md", "_two_ _three_", [UNDERSCORE_SYNTAX]);
+		index.set("c.md", "plain", [UNDERSCORE_SYNTAX]);
+		expect(index.list().map((n) => [n.path, n.entries.length])).toEqual([
+			["a.md", 2],
+			["b.md", 1],
+		]);
+	});
+
+	test("drops a note when it loses its underlines or is deleted", () => {
+		const index = new UnderlineIndex();
+		index.set("a.md", "_x_", [UNDERSCORE_SYNTAX]);
+		index.set("b.md", "_y_", [UNDERSCORE_SYNTAX]);
+		index.set("a.md", "_x_", []);
+		index.delete("b.md");
+		expect(index.list()).toEqual([]);
+	});
+});